@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ClientInfo } from './access-policy';
+import {
+  checkClientAccess,
+  compileAccessPolicy,
+  evaluateAccess,
+  getGlobalAccessPolicy,
+  rejectAccess,
+} from './access-policy';
+import type { ClientAccessPolicy, Env } from './types';
+
+const CLIENT: ClientInfo = { ip: '198.51.100.7', country: 'DE', asn: 64500, colo: 'FRA' };
+
+function evaluate(policy: unknown, client: Partial<ClientInfo> = {}) {
+  return evaluateAccess(compileAccessPolicy(policy as ClientAccessPolicy, 'Test'), {
+    ...CLIENT,
+    ...client,
+  });
+}
+
+describe('compileAccessPolicy', () => {
+  it('normalizes codes and defaults to a forbidden answer', () => {
+    const policy = compileAccessPolicy({ allow: { countries: [' de '], colos: ['fra'] } }, 'Test');
+
+    expect([...policy.allow.countries, ...policy.allow.colos]).toEqual(['DE', 'FRA']);
+    expect(policy.reject).toBe('forbidden');
+  });
+
+  it('names the owner of an invalid policy', () => {
+    const cases: [unknown, string][] = [
+      [[], 'Route edge access policy must be a JSON object.'],
+      [{ reject: 'drop' }, 'Route edge access policy has unsupported reject "drop".'],
+      [{ deny: { countries: ['DEU'] } }, 'Route edge access country "DEU" is not valid.'],
+      [{ allow: { colos: ['FR'] } }, 'Route edge access colo "FR" is not valid.'],
+      [{ deny: { asns: [0] } }, 'Route edge access ASN 0 is not valid.'],
+      [{ deny: { asns: ['64500'] } }, 'Route edge access ASN 64500 is not valid.'],
+      [{ allow: { cidrs: ['10.0.0.0/'] } }, 'Invalid CIDR prefix in "10.0.0.0/".'],
+    ];
+
+    for (const [policy, message] of cases) {
+      expect(() => compileAccessPolicy(policy as ClientAccessPolicy, 'Route edge')).toThrow(
+        message,
+      );
+    }
+  });
+});
+
+describe('getGlobalAccessPolicy', () => {
+  it('is null when unset and throws on invalid JSON', () => {
+    expect(getGlobalAccessPolicy({} as Env)).toBeNull();
+    expect(getGlobalAccessPolicy({ CLIENT_ACCESS_POLICY: '  ' } as Env)).toBeNull();
+    expect(() => getGlobalAccessPolicy({ CLIENT_ACCESS_POLICY: '{deny' } as Env)).toThrow();
+    expect(() =>
+      getGlobalAccessPolicy({ CLIENT_ACCESS_POLICY: '{"reject": "silent"}' } as Env),
+    ).toThrow('CLIENT_ACCESS_POLICY access policy has unsupported reject "silent".');
+  });
+
+  it('compiles each policy text once', () => {
+    const env = { CLIENT_ACCESS_POLICY: '{"deny": {"countries": ["T1"]}}' } as Env;
+
+    expect(getGlobalAccessPolicy(env)).toBe(getGlobalAccessPolicy({ ...env }));
+  });
+});
+
+describe('evaluateAccess', () => {
+  it('lets every client through without rules', () => {
+    expect(evaluate({})).toEqual({ allowed: true, rule: 'default' });
+  });
+
+  it('checks deny entries before allow lists', () => {
+    const policy = { allow: { countries: ['DE'] }, deny: { cidrs: ['198.51.100.0/24'] } };
+
+    expect(evaluate(policy)).toEqual({ allowed: false, rule: 'deny cidr 198.51.100.0/24' });
+    expect(evaluate(policy, { ip: '203.0.113.9' })).toEqual({ allowed: true, rule: 'allow' });
+  });
+
+  it('requires a client to be on every allow list that is set', () => {
+    const policy = { allow: { countries: ['DE'], asns: [64500], cidrs: ['2001:db8::/32'] } };
+
+    expect(evaluate(policy, { ip: '2001:db8::1' })).toEqual({ allowed: true, rule: 'allow' });
+    expect(evaluate(policy, { ip: '2001:db8::1', asn: 64501 })).toEqual({
+      allowed: false,
+      rule: 'asn 64501 not allowed',
+    });
+    expect(evaluate(policy)).toEqual({ allowed: false, rule: 'ip 198.51.100.7 not allowed' });
+  });
+
+  it('never matches an attribute Cloudflare did not report', () => {
+    expect(evaluate({ deny: { countries: ['DE'] } }, { country: null })).toEqual({
+      allowed: true,
+      rule: 'default',
+    });
+    expect(evaluate({ allow: { colos: ['FRA'] } }, { colo: null })).toEqual({
+      allowed: false,
+      rule: 'colo unknown not allowed',
+    });
+    expect(evaluate({ allow: { cidrs: ['0.0.0.0/0'] } }, { ip: 'garbage' })).toEqual({
+      allowed: false,
+      rule: 'ip garbage not allowed',
+    });
+  });
+});
+
+describe('checkClientAccess', () => {
+  it('is decided by the first layer that denies the client', () => {
+    const allowGermany = compileAccessPolicy({ allow: { countries: ['DE'] } }, 'Host');
+    const denyFrankfurt = compileAccessPolicy(
+      { deny: { colos: ['FRA'] }, reject: 'close' },
+      'Route',
+    );
+    const denyAsn = compileAccessPolicy({ deny: { asns: [64500] }, reject: 'decoy' }, 'Route');
+
+    expect(
+      checkClientAccess({} as Env, CLIENT, [
+        { scope: 'global', policy: null },
+        { scope: 'host a.example.com', policy: allowGermany },
+        { scope: 'route edge', policy: denyFrankfurt },
+        { scope: 'route other', policy: denyAsn },
+      ]),
+    ).toEqual({ allowed: false, rule: 'deny colo FRA', scope: 'route edge', reject: 'close' });
+  });
+
+  it('is null when no layer has a policy', () => {
+    expect(checkClientAccess({} as Env, CLIENT, [{ scope: 'global', policy: null }])).toBeNull();
+  });
+});
+
+describe('rejectAccess', () => {
+  it('closes WebSocket upgrades and answers other requests with an empty 403', async () => {
+    const upgrade = new Request('https://proxy.example.com/ws', {
+      headers: { Upgrade: 'websocket' },
+    });
+    const plain = new Request('https://proxy.example.com/ws');
+
+    expect((await rejectAccess(upgrade, 'close', 'default')).status).toBe(101);
+
+    const refused = await rejectAccess(plain, 'close', 'default');
+    expect([refused.status, await refused.text()]).toEqual([403, '']);
+    expect((await rejectAccess(plain, 'forbidden', 'default')).status).toBe(403);
+  });
+});
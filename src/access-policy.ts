@@ -0,0 +1,264 @@
+import { SUPPORTED_ACCESS_REJECTIONS } from './config';
+import { renderLandingSetting } from './landing';
+import type {
+  AccessRejectBehaviour,
+  ClientAccessPolicy,
+  ClientAccessRules,
+  Env,
+  LandingSetting,
+} from './types';
+import type { CidrRange, IpAddress } from './utils/ip';
+import { cidrContains, parseCidr, parseIpAddress } from './utils/ip';
+import { textResponse } from './utils/response';
+import { safeClose } from './utils/socket';
+
+/** What Cloudflare knows about the client of a request. */
+export interface ClientInfo {
+  ip: string | null;
+  country: string | null;
+  asn: number | null;
+  colo: string | null;
+}
+
+interface CompiledAccessRules {
+  cidrs: { source: string; range: CidrRange }[];
+  countries: Set<string>;
+  asns: Set<number>;
+  colos: Set<string>;
+}
+
+export interface CompiledAccessPolicy {
+  allow: CompiledAccessRules;
+  deny: CompiledAccessRules;
+  reject: AccessRejectBehaviour;
+}
+
+/** One place access rules are set: `global`, `host <pattern>` or `route <name>`. */
+export interface AccessLayer {
+  scope: string;
+  policy: CompiledAccessPolicy | null;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  /** Rule that decided, e.g. `deny country CN` or `colo HKG not allowed`. */
+  rule: string;
+  /** Layer that denied the client, or the last one checked. */
+  scope: string;
+  reject: AccessRejectBehaviour;
+}
+
+const COUNTRY_PATTERN = /^[A-Z0-9]{2}$/;
+const COLO_PATTERN = /^[A-Z]{3}$/;
+
+const parsedGlobalPolicies = new Map<string, CompiledAccessPolicy>();
+
+function isAccessRejectBehaviour(value: string): value is AccessRejectBehaviour {
+  return (SUPPORTED_ACCESS_REJECTIONS as readonly string[]).includes(value);
+}
+
+function compileCodes(codes: string[] | undefined, pattern: RegExp, owner: string, kind: string): Set<string> {
+  const compiled = new Set<string>();
+
+  for (const code of codes ?? []) {
+    const normalized = String(code).trim().toUpperCase();
+
+    if (!pattern.test(normalized)) {
+      throw new Error(`${owner} access ${kind} "${String(code)}" is not valid.`);
+    }
+
+    compiled.add(normalized);
+  }
+
+  return compiled;
+}
+
+function compileAccessRules(rules: ClientAccessRules | undefined, owner: string): CompiledAccessRules {
+  const asns = new Set<number>();
+
+  for (const asn of rules?.asns ?? []) {
+    if (!Number.isInteger(asn) || asn < 1) {
+      throw new Error(`${owner} access ASN ${String(asn)} is not valid.`);
+    }
+
+    asns.add(asn);
+  }
+
+  return {
+    cidrs: (rules?.cidrs ?? []).map((cidr) => ({ source: cidr, range: parseCidr(cidr) })),
+    countries: compileCodes(rules?.countries, COUNTRY_PATTERN, owner, 'country'),
+    asns,
+    colos: compileCodes(rules?.colos, COLO_PATTERN, owner, 'colo'),
+  };
+}
+
+/** Validates a policy up front; `owner` names it in errors, e.g. `Route vless-ws`. */
+export function compileAccessPolicy(policy: ClientAccessPolicy, owner: string): CompiledAccessPolicy {
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    throw new Error(`${owner} access policy must be a JSON object.`);
+  }
+
+  if (policy.reject !== undefined && !isAccessRejectBehaviour(policy.reject)) {
+    throw new Error(`${owner} access policy has unsupported reject "${String(policy.reject)}".`);
+  }
+
+  return {
+    allow: compileAccessRules(policy.allow, owner),
+    deny: compileAccessRules(policy.deny, owner),
+    reject: policy.reject ?? 'forbidden',
+  };
+}
+
+/** The Worker-wide CLIENT_ACCESS_POLICY, or null when unset. Throws when it is invalid. */
+export function getGlobalAccessPolicy(env: Env): CompiledAccessPolicy | null {
+  const source = (env.CLIENT_ACCESS_POLICY ?? '').trim();
+
+  if (!source) {
+    return null;
+  }
+
+  const cached = parsedGlobalPolicies.get(source);
+
+  if (cached) {
+    return cached;
+  }
+
+  const policy = compileAccessPolicy(JSON.parse(source) as ClientAccessPolicy, 'CLIENT_ACCESS_POLICY');
+  parsedGlobalPolicies.set(source, policy);
+  return policy;
+}
+
+export function readClientInfo(request: Request): ClientInfo {
+  const cf = request.cf;
+
+  return {
+    ip: request.headers.get('CF-Connecting-IP'),
+    country: typeof cf?.country === 'string' ? cf.country.toUpperCase() : null,
+    asn: typeof cf?.asn === 'number' ? cf.asn : null,
+    colo: typeof cf?.colo === 'string' ? cf.colo.toUpperCase() : null,
+  };
+}
+
+function matchCidr(rules: CompiledAccessRules, address: IpAddress | null): string | null {
+  const entry = address ? rules.cidrs.find((cidr) => cidrContains(cidr.range, address)) : undefined;
+  return entry ? `cidr ${entry.source}` : null;
+}
+
+/** First deny entry matching the client. */
+function matchDeny(rules: CompiledAccessRules, client: ClientInfo, address: IpAddress | null): string | null {
+  if (client.country && rules.countries.has(client.country)) {
+    return `country ${client.country}`;
+  }
+
+  if (client.asn !== null && rules.asns.has(client.asn)) {
+    return `asn ${client.asn}`;
+  }
+
+  if (client.colo && rules.colos.has(client.colo)) {
+    return `colo ${client.colo}`;
+  }
+
+  return matchCidr(rules, address);
+}
+
+/** First allow list the client is missing from; a client attribute Cloudflare did not report never matches. */
+function findUnallowed(rules: CompiledAccessRules, client: ClientInfo, address: IpAddress | null): string | null {
+  if (rules.countries.size > 0 && !(client.country && rules.countries.has(client.country))) {
+    return `country ${client.country ?? 'unknown'}`;
+  }
+
+  if (rules.asns.size > 0 && !(client.asn !== null && rules.asns.has(client.asn))) {
+    return `asn ${client.asn ?? 'unknown'}`;
+  }
+
+  if (rules.colos.size > 0 && !(client.colo && rules.colos.has(client.colo))) {
+    return `colo ${client.colo ?? 'unknown'}`;
+  }
+
+  if (rules.cidrs.length > 0 && !matchCidr(rules, address)) {
+    return `ip ${client.ip ?? 'unknown'}`;
+  }
+
+  return null;
+}
+
+export function evaluateAccess(policy: CompiledAccessPolicy, client: ClientInfo): { allowed: boolean; rule: string } {
+  const address = client.ip ? parseIpAddress(client.ip) : null;
+  const denied = matchDeny(policy.deny, client, address);
+
+  if (denied) {
+    return { allowed: false, rule: `deny ${denied}` };
+  }
+
+  const unallowed = findUnallowed(policy.allow, client, address);
+
+  if (unallowed) {
+    return { allowed: false, rule: `${unallowed} not allowed` };
+  }
+
+  const hasAllowLists =
+    policy.allow.countries.size + policy.allow.asns.size + policy.allow.colos.size + policy.allow.cidrs.length > 0;
+
+  return { allowed: true, rule: hasAllowLists ? 'allow' : 'default' };
+}
+
+/**
+ * Checks the client against every layer in order; the first layer that denies it decides. Returns null
+ * when no layer has a policy. Every decision is logged with DEBUG.
+ */
+export function checkClientAccess(
+  env: Env,
+  client: ClientInfo,
+  layers: readonly AccessLayer[],
+): AccessDecision | null {
+  let decision: AccessDecision | null = null;
+
+  for (const { scope, policy } of layers) {
+    if (!policy) {
+      continue;
+    }
+
+    decision = { ...evaluateAccess(policy, client), scope, reject: policy.reject };
+
+    if (!decision.allowed) {
+      break;
+    }
+  }
+
+  if (decision && env.DEBUG === 'true') {
+    console.log('[access]', 'client access decision', { ...client, ...decision });
+  }
+
+  return decision;
+}
+
+/**
+ * Answers a denied client. `decoy` serves the host's landing page (the built-in one when the host has
+ * none), `forbidden` is a plain `403`, and `close` accepts a WebSocket upgrade and closes it without a
+ * reason, or returns an empty `403` to other requests.
+ */
+export async function rejectAccess(
+  request: Request,
+  behaviour: AccessRejectBehaviour,
+  landing: LandingSetting,
+): Promise<Response> {
+  if (behaviour === 'decoy') {
+    return renderLandingSetting(landing === 'none' ? 'default' : landing);
+  }
+
+  if (behaviour === 'close') {
+    if ((request.headers.get('upgrade') ?? '').toLowerCase() !== 'websocket') {
+      return new Response(null, { status: 403 });
+    }
+
+    const socketPair = new WebSocketPair();
+    const clientSocket = socketPair[0];
+    const workerSocket = socketPair[1];
+    workerSocket.accept();
+    safeClose(workerSocket, 1000, '');
+
+    return new Response(null, { status: 101, webSocket: clientSocket });
+  }
+
+  return textResponse(403, 'Forbidden.');
+}
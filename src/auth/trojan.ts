@@ -0,0 +1,62 @@
+import { TROJAN_HASH_HEX_LENGTH } from '../protocols/trojan';
+import type { Env } from '../types';
+import { sha224Hex } from '../utils/sha224';
+
+const USERS_KV_PREFIX = 'trojan:';
+const USERS_KV_CACHE_TTL_SECONDS = 60;
+const HASH_PATTERN = new RegExp(`^[0-9a-f]{${TROJAN_HASH_HEX_LENGTH}}$`);
+
+const parsedAllowlists = new Map<string, Set<string>>();
+
+/** Hex SHA-224 hashes from TROJAN_PASSWORD_HASHES plus the hashes of plaintext TROJAN_PASSWORDS. */
+function parseAllowlist(rawHashes: string, rawPasswords: string): Set<string> {
+  const cacheKey = `${rawHashes}\n${rawPasswords}`;
+  const cached = parsedAllowlists.get(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const allowlist = new Set<string>();
+
+  for (const entry of rawHashes.split(/[,\s]+/)) {
+    const hash = entry.trim().toLowerCase();
+
+    if (HASH_PATTERN.test(hash)) {
+      allowlist.add(hash);
+    }
+  }
+
+  // Passwords are newline or comma separated; surrounding whitespace is not part of a password.
+  for (const entry of rawPasswords.split(/[,\n]/)) {
+    const password = entry.trim();
+
+    if (password) {
+      allowlist.add(sha224Hex(password));
+    }
+  }
+
+  parsedAllowlists.set(cacheKey, allowlist);
+  return allowlist;
+}
+
+export function isTrojanAuthEnabled(env: Env): boolean {
+  return env.TROJAN_AUTH === 'true';
+}
+
+/**
+ * A Trojan password hash is allowed when it is listed in TROJAN_PASSWORD_HASHES, is the hash of a
+ * TROJAN_PASSWORDS entry, or when the USERS_KV namespace holds a `trojan:<hash>` key.
+ */
+export async function isTrojanPasswordAllowed(env: Env, passwordHash: string): Promise<boolean> {
+  if (parseAllowlist(env.TROJAN_PASSWORD_HASHES ?? '', env.TROJAN_PASSWORDS ?? '').has(passwordHash)) {
+    return true;
+  }
+
+  if (!env.USERS_KV) {
+    return false;
+  }
+
+  const entry = await env.USERS_KV.get(`${USERS_KV_PREFIX}${passwordHash}`, { cacheTtl: USERS_KV_CACHE_TTL_SECONDS });
+  return entry !== null;
+}
@@ -0,0 +1,49 @@
+import { normalizeUuid } from '../protocols/vless';
+import type { Env } from '../types';
+
+const USERS_KV_PREFIX = 'vless:';
+const USERS_KV_CACHE_TTL_SECONDS = 60;
+
+const parsedAllowlists = new Map<string, Set<string>>();
+
+function parseAllowlist(raw: string): Set<string> {
+  const cached = parsedAllowlists.get(raw);
+
+  if (cached) {
+    return cached;
+  }
+
+  const allowlist = new Set<string>();
+
+  for (const entry of raw.split(/[,\s]+/)) {
+    const uuid = normalizeUuid(entry);
+
+    if (uuid) {
+      allowlist.add(uuid);
+    }
+  }
+
+  parsedAllowlists.set(raw, allowlist);
+  return allowlist;
+}
+
+export function isVlessAuthEnabled(env: Env): boolean {
+  return env.VLESS_AUTH === 'true';
+}
+
+/**
+ * A VLESS user is allowed when listed in VLESS_UUIDS or when the USERS_KV namespace holds a
+ * `vless:<uuid>` key. Deleting the KV key revokes the user within the KV cache TTL.
+ */
+export async function isVlessUserAllowed(env: Env, userId: string): Promise<boolean> {
+  if (parseAllowlist(env.VLESS_UUIDS ?? '').has(userId)) {
+    return true;
+  }
+
+  if (!env.USERS_KV) {
+    return false;
+  }
+
+  const entry = await env.USERS_KV.get(`${USERS_KV_PREFIX}${userId}`, { cacheTtl: USERS_KV_CACHE_TTL_SECONDS });
+  return entry !== null;
+}
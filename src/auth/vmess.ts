@@ -0,0 +1,140 @@
+import { SUPPORTED_REJECT_BEHAVIOURS } from '../config';
+import { normalizeUuid, uuidToBytes } from '../protocols/vless';
+import {
+  VMESS_AUTH_ID_BYTES,
+  VMESS_MIN_HEADER_BYTES,
+  decryptAuthId,
+  deriveCmdKey,
+  importAuthIdKey,
+  readAuthIdTimestamp,
+} from '../protocols/vmess';
+import type { Env, RejectBehaviour } from '../types';
+
+export type VmessAuthResult = { ok: true; userId: string } | { ok: false; reason: string };
+
+interface VmessUser {
+  id: string;
+  authIdKey: Promise<CryptoKey>;
+}
+
+// Xray accepts authIDs within 120 seconds of its clock and remembers them to refuse replays.
+const MAX_CLOCK_SKEW_SECONDS = 120;
+const REPLAY_WINDOW_MS = 2 * MAX_CLOCK_SKEW_SECONDS * 1_000;
+const REPLAY_SWEEP_THRESHOLD = 1_024;
+
+const parsedUsers = new Map<string, VmessUser[]>();
+// Isolate-local replay filter; a replay landing on another isolate is still caught by the backend.
+const seenAuthIds = new Map<string, number>();
+
+function parseUsers(raw: string): VmessUser[] {
+  const cached = parsedUsers.get(raw);
+
+  if (cached) {
+    return cached;
+  }
+
+  const users: VmessUser[] = [];
+
+  for (const entry of raw.split(/[,\s]+/)) {
+    const id = normalizeUuid(entry);
+
+    if (id) {
+      users.push({ id, authIdKey: deriveCmdKey(uuidToBytes(id)).then(importAuthIdKey) });
+    }
+  }
+
+  parsedUsers.set(raw, users);
+  return users;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function rememberAuthId(authIdHex: string, now: number): boolean {
+  if (seenAuthIds.size >= REPLAY_SWEEP_THRESHOLD) {
+    for (const [seen, expiresAt] of seenAuthIds) {
+      if (expiresAt <= now) {
+        seenAuthIds.delete(seen);
+      }
+    }
+  }
+
+  const expiresAt = seenAuthIds.get(authIdHex);
+
+  if (expiresAt !== undefined && expiresAt > now) {
+    return false;
+  }
+
+  seenAuthIds.set(authIdHex, now + REPLAY_WINDOW_MS);
+  return true;
+}
+
+export function isVmessAuthEnabled(env: Env): boolean {
+  return env.VMESS_AUTH === 'true';
+}
+
+export function getVmessRejectBehaviour(env: Env): RejectBehaviour {
+  const configured = (env.VMESS_AUTH_FAILURE ?? '').toLowerCase();
+
+  if ((SUPPORTED_REJECT_BEHAVIOURS as readonly string[]).includes(configured)) {
+    return configured as RejectBehaviour;
+  }
+
+  return 'drop';
+}
+
+async function findVmessUser(
+  env: Env,
+  authId: Uint8Array,
+): Promise<{ user: VmessUser; timestamp: number } | null> {
+  for (const user of parseUsers(env.VMESS_UUIDS ?? '')) {
+    const timestamp = readAuthIdTimestamp(await decryptAuthId(await user.authIdKey, authId));
+
+    if (timestamp !== null) {
+      return { user, timestamp };
+    }
+  }
+
+  return null;
+}
+
+/** User whose key decrypts the authID, without freshness or replay checks (used for classification). */
+export async function identifyVmessUser(env: Env, firstFrame: Uint8Array): Promise<string | null> {
+  if (firstFrame.byteLength < VMESS_MIN_HEADER_BYTES) {
+    return null;
+  }
+
+  const match = await findVmessUser(env, firstFrame.subarray(0, VMESS_AUTH_ID_BYTES));
+  return match?.user.id ?? null;
+}
+
+/**
+ * Checks the VMess AEAD authID at the start of the first client frame against every user in
+ * VMESS_UUIDS: it must decrypt with the user's key, carry a valid CRC, be fresh and not replayed.
+ */
+export async function authenticateVmess(env: Env, firstFrame: Uint8Array): Promise<VmessAuthResult> {
+  if (firstFrame.byteLength < VMESS_MIN_HEADER_BYTES) {
+    return { ok: false, reason: 'VMess header too short' };
+  }
+
+  const authId = firstFrame.subarray(0, VMESS_AUTH_ID_BYTES);
+  const nowMs = Date.now();
+  const match = await findVmessUser(env, authId);
+
+  if (!match) {
+    return { ok: false, reason: 'Unknown VMess authID' };
+  }
+
+  const { user, timestamp } = match;
+
+  if (Math.abs(nowMs / 1_000 - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+    return { ok: false, reason: `Stale VMess authID for ${user.id}` };
+  }
+
+  if (!rememberAuthId(toHex(authId), nowMs)) {
+    return { ok: false, reason: `Replayed VMess authID for ${user.id}` };
+  }
+
+  return { ok: true, userId: user.id };
+}
@@ -1,7 +1,101 @@
-import type { TransportType } from './types';
+import type {
+  AccessRejectBehaviour,
+  BackendStrategy,
+  ProxyProtocol,
+  RateLimitKeyMode,
+  RejectBehaviour,
+  RouteOptionKey,
+  TransportType,
+} from './types';
 
 export const BACKEND_ORIGIN = 'http://127.0.0.1:10000';
 export const DEFAULT_TRANSPORT: TransportType = 'xhttp';
 export const DEBUG = 'false';
 
-export const SUPPORTED_TRANSPORTS = ['xhttp', 'httpupgrade', 'ws'] as const satisfies readonly TransportType[];
+export const SUPPORTED_TRANSPORTS = ['xhttp', 'httpupgrade', 'ws', 'grpc'] as const satisfies readonly TransportType[];
+
+export const SUPPORTED_PROTOCOLS = ['vless', 'vmess', 'trojan', 'shadowsocks'] as const satisfies readonly ProxyProtocol[];
+
+export const DEFAULT_BACKEND_STRATEGY: BackendStrategy = 'round-robin';
+
+export const SUPPORTED_BACKEND_STRATEGIES = [
+  'round-robin',
+  'weighted-random',
+  'least-recently-failed',
+  'hash-ip',
+  'hash-path',
+] as const satisfies readonly BackendStrategy[];
+
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+export const CIRCUIT_COOLDOWN_MS = 30_000;
+export const CIRCUIT_SYNC_INTERVAL_MS = 5_000;
+
+export const ROUTES_CACHE_TTL_MS = 60_000;
+
+export const ROUTE_OPTION_KEYS = [
+  'BACKEND_ATTEMPT_TIMEOUT_MS',
+  'BACKEND_FAILOVER_DEADLINE_MS',
+  'DEBUG',
+  'VLESS_AUTH',
+  'VLESS_UUIDS',
+  'VMESS_AUTH',
+  'VMESS_UUIDS',
+  'VMESS_AUTH_FAILURE',
+  'VLESS_INBOUND',
+  'DESTINATION_POLICY',
+  'PROTOCOL_BACKENDS',
+  'TROJAN_AUTH',
+  'TROJAN_PASSWORDS',
+  'TROJAN_PASSWORD_HASHES',
+  'TROJAN_INBOUND',
+  'HTTPUPGRADE_RAW',
+  'HANDSHAKE_HEADERS_ALLOW',
+  'HANDSHAKE_HEADERS_DENY',
+  'CLIENT_BUFFER_MAX_BYTES',
+  'RELAY_HIGH_WATERMARK_BYTES',
+  'RELAY_LOW_WATERMARK_BYTES',
+  'RELAY_STALL_TIMEOUT_MS',
+  'CLIENT_IDLE_TIMEOUT_MS',
+  'BACKEND_IDLE_TIMEOUT_MS',
+  'MAX_SESSION_MS',
+  'BACKEND_KEEPALIVE_INTERVAL_MS',
+  'RATE_LIMIT_UPGRADES_PER_MINUTE',
+  'RATE_LIMIT_MAX_CONNECTIONS',
+  'RATE_LIMIT_KEY',
+  'TRAFFIC_ACCOUNTING',
+  'TRAFFIC_DAILY_QUOTA_BYTES',
+  'TRAFFIC_MONTHLY_QUOTA_BYTES',
+  'BANDWIDTH_UPLOAD_BYTES_PER_SECOND',
+  'BANDWIDTH_DOWNLOAD_BYTES_PER_SECOND',
+  'BANDWIDTH_BURST_BYTES',
+  'BANDWIDTH_USERS',
+] as const satisfies readonly RouteOptionKey[];
+
+export const SUPPORTED_REJECT_BEHAVIOURS = ['drop', 'delay', 'decoy'] as const satisfies readonly RejectBehaviour[];
+
+export const SUPPORTED_RATE_LIMIT_KEYS = ['ip', 'user', 'route'] as const satisfies readonly RateLimitKeyMode[];
+
+export const SUPPORTED_ACCESS_REJECTIONS = ['decoy', 'forbidden', 'close'] as const satisfies readonly AccessRejectBehaviour[];
+
+/** Outbound ports refused by the destination policy unless explicitly allowed (SMTP). */
+export const DEFAULT_BLOCKED_PORTS: readonly number[] = [25];
+
+/** Non-public ranges refused by the destination policy while `blockPrivate` is on. */
+export const PRIVATE_DESTINATION_CIDRS: readonly string[] = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
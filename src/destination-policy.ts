@@ -0,0 +1,180 @@
+import { DEFAULT_BLOCKED_PORTS, PRIVATE_DESTINATION_CIDRS } from './config';
+import { compileHostPattern } from './routes';
+import type { DestinationPolicy, DestinationRules, DestinationRuleSet, Env } from './types';
+import type { CidrRange } from './utils/ip';
+import { cidrContains, parseCidr, parseIpAddress } from './utils/ip';
+
+export interface Destination {
+  hostname: string;
+  port: number;
+  userId: string | null;
+}
+
+export interface DestinationDecision {
+  allowed: boolean;
+  /** Rule that decided, e.g. `block port 25` or `private address`. */
+  rule: string;
+}
+
+interface CompiledRuleSet {
+  ports: Set<number>;
+  domains: { source: string; pattern: RegExp }[];
+  cidrs: { source: string; range: CidrRange }[];
+}
+
+interface CompiledRules {
+  blockPrivate: boolean;
+  allow: CompiledRuleSet;
+  block: CompiledRuleSet;
+}
+
+interface CompiledPolicy {
+  base: CompiledRules;
+  users: Map<string, CompiledRules>;
+}
+
+const LOCAL_HOSTNAME_PATTERN = /(^|\.)localhost$/;
+
+const privateRanges = PRIVATE_DESTINATION_CIDRS.map((cidr) => parseCidr(cidr));
+const parsedPolicies = new Map<string, CompiledPolicy>();
+
+function compileRuleSet(set: DestinationRuleSet | undefined, inherited?: CompiledRuleSet): CompiledRuleSet {
+  const ports = new Set(inherited?.ports);
+
+  for (const port of set?.ports ?? []) {
+    if (!Number.isInteger(port) || port < 1 || port > 65_535) {
+      throw new Error(`Destination policy port ${String(port)} is not a valid port.`);
+    }
+
+    ports.add(port);
+  }
+
+  return {
+    ports,
+    domains: [
+      ...(inherited?.domains ?? []),
+      ...(set?.domains ?? []).map((domain) => ({ source: domain, pattern: compileHostPattern(domain) })),
+    ],
+    cidrs: [...(inherited?.cidrs ?? []), ...(set?.cidrs ?? []).map((cidr) => ({ source: cidr, range: parseCidr(cidr) }))],
+  };
+}
+
+function compileRules(rules: DestinationRules, inherited?: CompiledRules): CompiledRules {
+  return {
+    blockPrivate: rules.blockPrivate ?? inherited?.blockPrivate ?? true,
+    allow: compileRuleSet(rules.allow, inherited?.allow),
+    block: compileRuleSet(rules.block, inherited?.block),
+  };
+}
+
+export function parseDestinationPolicy(source: string): CompiledPolicy {
+  const parsed: DestinationPolicy = source ? (JSON.parse(source) as DestinationPolicy) : {};
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Destination policy must be a JSON object.');
+  }
+
+  const base = compileRules({
+    ...parsed,
+    block: { ...parsed.block, ports: [...DEFAULT_BLOCKED_PORTS, ...(parsed.block?.ports ?? [])] },
+  });
+  const users = new Map<string, CompiledRules>();
+
+  for (const [userId, rules] of Object.entries(parsed.users ?? {})) {
+    users.set(userId.toLowerCase(), compileRules(rules, base));
+  }
+
+  return { base, users };
+}
+
+function getPolicy(env: Env): CompiledPolicy {
+  const source = (env.DESTINATION_POLICY ?? '').trim();
+  const cached = parsedPolicies.get(source);
+
+  if (cached) {
+    return cached;
+  }
+
+  const policy = parseDestinationPolicy(source);
+  parsedPolicies.set(source, policy);
+  return policy;
+}
+
+function matchRuleSet(set: CompiledRuleSet, hostname: string, port: number): string | null {
+  if (set.ports.has(port)) {
+    return `port ${port}`;
+  }
+
+  const address = parseIpAddress(hostname);
+
+  if (address) {
+    const cidr = set.cidrs.find((entry) => cidrContains(entry.range, address));
+    return cidr ? `cidr ${cidr.source}` : null;
+  }
+
+  const domain = set.domains.find((entry) => entry.pattern.test(hostname));
+  return domain ? `domain ${domain.source}` : null;
+}
+
+function isPrivateDestination(hostname: string): boolean {
+  const address = parseIpAddress(hostname);
+
+  if (!address) {
+    return LOCAL_HOSTNAME_PATTERN.test(hostname);
+  }
+
+  return privateRanges.some((range) => cidrContains(range, address));
+}
+
+/**
+ * Allow rules win, then block rules, then the private-range check; anything else is allowed.
+ * Domains are matched by name only: the Worker cannot see what they resolve to.
+ */
+export function evaluateDestination(env: Env, destination: Destination): DestinationDecision {
+  const policy = getPolicy(env);
+  const rules = (destination.userId && policy.users.get(destination.userId)) || policy.base;
+  const hostname = destination.hostname.toLowerCase().replace(/\.$/, '');
+
+  const allowed = matchRuleSet(rules.allow, hostname, destination.port);
+
+  if (allowed) {
+    return { allowed: true, rule: `allow ${allowed}` };
+  }
+
+  const blocked = matchRuleSet(rules.block, hostname, destination.port);
+
+  if (blocked) {
+    return { allowed: false, rule: `block ${blocked}` };
+  }
+
+  if (rules.blockPrivate && isPrivateDestination(hostname)) {
+    return { allowed: false, rule: 'private address' };
+  }
+
+  return { allowed: true, rule: 'default' };
+}
+
+export function isDestinationPolicyEnabled(env: Env): boolean {
+  return (env.DESTINATION_POLICY ?? '').trim() !== '';
+}
+
+/**
+ * Evaluates and logs a destination decision. Blocked destinations are always logged, allowed ones
+ * only with DEBUG. An invalid policy blocks every destination.
+ */
+export function checkDestination(env: Env, destination: Destination, logPrefix: string): DestinationDecision {
+  let decision: DestinationDecision;
+
+  try {
+    decision = evaluateDestination(env, destination);
+  } catch (error) {
+    console.error(logPrefix, 'invalid destination policy', error);
+    return { allowed: false, rule: 'invalid policy' };
+  }
+
+  if (!decision.allowed || env.DEBUG === 'true') {
+    console.log(logPrefix, 'destination policy decision', { ...destination, ...decision });
+  }
+
+  return decision;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { runHealthChecks } from './health-check';
+import type { BackendProbeRecord, Env } from './types';
+
+interface BackendAnswers {
+  /** Status of plain GETs, or null when the backend cannot be reached. */
+  passthrough: number | null;
+  /** Status of WebSocket handshakes; 101 comes with a socket. */
+  handshake: number;
+}
+
+function createBackend(answers: BackendAnswers): Fetcher {
+  return {
+    fetch: (_input: RequestInfo | URL, init?: RequestInit) => {
+      if (new Headers(init?.headers).get('Upgrade') === 'websocket') {
+        if (answers.handshake !== 101) {
+          return Promise.resolve(new Response(null, { status: answers.handshake }));
+        }
+
+        const [client] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+        return Promise.resolve(new Response(null, { status: 101, webSocket: client }));
+      }
+
+      if (answers.passthrough === null) {
+        return Promise.reject(new Error('connection refused'));
+      }
+
+      return Promise.resolve(new Response('Bad Request', { status: answers.passthrough }));
+    },
+  } as unknown as Fetcher;
+}
+
+/** Runs the scheduled checks against one backend and returns the record stored for it. */
+async function probe(answers: BackendAnswers, paths = 'ws=/vless'): Promise<BackendProbeRecord> {
+  const records: BackendProbeRecord[] = [];
+  const health = {
+    idFromName: (name: string) => name,
+    get: () => ({
+      recordProbe: (_key: string, record: BackendProbeRecord) => {
+        records.push(record);
+        return Promise.resolve(record);
+      },
+    }),
+  };
+
+  await runHealthChecks({
+    BACKEND_URLS: 'service:ORIGIN',
+    ORIGIN: createBackend(answers),
+    BACKEND_HEALTH: health,
+    HEALTH_CHECK_PATHS: paths,
+  } as unknown as Env);
+
+  expect(records).toHaveLength(1);
+  return records[0] as BackendProbeRecord;
+}
+
+describe('runHealthChecks', () => {
+  it('counts a 4xx passthrough answer and a 101 handshake as healthy', async () => {
+    const record = await probe({ passthrough: 400, handshake: 101 });
+
+    expect(record.healthy).toBe(true);
+    expect(record.results.map(({ kind, ok, status }) => ({ kind, ok, status }))).toEqual([
+      { kind: 'passthrough', ok: true, status: 400 },
+      { kind: 'handshake', ok: true, status: 101 },
+    ]);
+  });
+
+  it('counts a 5xx passthrough answer as unhealthy', async () => {
+    const record = await probe({ passthrough: 502, handshake: 101 });
+
+    expect(record.healthy).toBe(false);
+    expect(record.results[0]).toMatchObject({ kind: 'passthrough', ok: false, status: 502 });
+  });
+
+  it('counts a handshake answered without an upgrade as unhealthy', async () => {
+    const record = await probe({ passthrough: 400, handshake: 404 });
+
+    expect(record.healthy).toBe(false);
+    expect(record.results[1]).toMatchObject({ kind: 'handshake', ok: false, status: 404 });
+  });
+
+  it('records an unreachable backend with status 0', async () => {
+    const record = await probe({ passthrough: null, handshake: 101 }, 'grpc=/tunnel');
+
+    expect(record.healthy).toBe(false);
+    expect(record.results).toEqual([
+      expect.objectContaining({ kind: 'passthrough', ok: false, status: 0 }),
+    ]);
+  });
+
+  it('rejects malformed HEALTH_CHECK_PATHS entries', async () => {
+    await expect(probe({ passthrough: 400, handshake: 101 }, 'ws:/vless')).rejects.toThrow(
+      'must look like ws=/path',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { applyHostProfileEnv, loadHostProfiles } from './hosts';
+import { applyRouteEnv, loadRoutes } from './routes';
+import type { BackendProbeRecord, BackendTarget, Env, ProbeKind, ProbeResult, TransportType } from './types';
+import { getBackendFetch, parseBackendPool, toBackendUrl } from './utils/backends';
+import { getHealthStub, responseOutcome } from './utils/circuit-breaker';
+import { isTransportType, parsePositiveInteger } from './utils/env';
+import { HEALTH_CHECK_TIMEOUT_MS, fetchWithTimeout } from './utils/fetch';
+
+interface ProbeTarget {
+  transport: TransportType | null;
+  path: string;
+}
+
+// Same key as the README curl checks; backends only need a syntactically valid handshake.
+const HANDSHAKE_KEY = 'dGhlIHNhbXBsZSBub25jZQ==';
+const HANDSHAKE_TRANSPORTS: readonly TransportType[] = ['ws', 'httpupgrade'];
+
+function isDebugEnabled(env: Env): boolean {
+  return env.DEBUG === 'true';
+}
+
+/**
+ * HEALTH_CHECK_PATHS lists `transport=path` pairs naming the backend inbound path of each transport.
+ * Without it only a plain reachability probe of `/` runs, since handshakes need a real inbound path.
+ */
+function parseProbeTargets(env: Env): ProbeTarget[] {
+  const raw = (env.HEALTH_CHECK_PATHS ?? '').trim();
+
+  if (!raw) {
+    return [{ transport: null, path: '/' }];
+  }
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separatorIndex = entry.indexOf('=');
+      const transport = entry.slice(0, separatorIndex).trim().toLowerCase();
+      const path = entry.slice(separatorIndex + 1).trim();
+
+      if (separatorIndex === -1 || !isTransportType(transport) || !path.startsWith('/')) {
+        throw new Error(`HEALTH_CHECK_PATHS entry "${entry}" must look like ws=/path.`);
+      }
+
+      return { transport, path };
+    });
+}
+
+async function runProbe(
+  env: Env,
+  backend: BackendTarget,
+  target: ProbeTarget,
+  kind: ProbeKind,
+  timeoutMs: number,
+): Promise<ProbeResult> {
+  const backendUrl = toBackendUrl(backend, new URL(target.path, backend.url));
+  const headers = new Headers();
+
+  if (kind === 'handshake') {
+    headers.set('Connection', 'Upgrade');
+    headers.set('Upgrade', 'websocket');
+    headers.set('Sec-WebSocket-Version', '13');
+    headers.set('Sec-WebSocket-Key', HANDSHAKE_KEY);
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetchWithTimeout(
+      backendUrl.toString(),
+      { method: 'GET', headers, redirect: 'manual' },
+      timeoutMs,
+      getBackendFetch(backend, env),
+    );
+    const latencyMs = Date.now() - startedAt;
+    let ok: boolean;
+
+    if (kind === 'handshake') {
+      ok = response.status === 101 && response.webSocket !== null;
+
+      if (response.webSocket) {
+        response.webSocket.accept();
+        response.webSocket.close(1000, 'Health check');
+      }
+    } else {
+      // Any non-5xx answer proves the inbound is listening; Xray rejects plain GETs with 4xx.
+      ok = responseOutcome(response.status) === 'success';
+    }
+
+    await response.body?.cancel();
+    return { transport: target.transport, kind, ok, status: response.status, latencyMs };
+  } catch {
+    return { transport: target.transport, kind, ok: false, status: 0, latencyMs: Date.now() - startedAt };
+  }
+}
+
+async function probeBackend(
+  env: Env,
+  backend: BackendTarget,
+  targets: readonly ProbeTarget[],
+  timeoutMs: number,
+): Promise<BackendProbeRecord> {
+  const probes: Promise<ProbeResult>[] = [];
+
+  for (const target of targets) {
+    probes.push(runProbe(env, backend, target, 'passthrough', timeoutMs));
+
+    if (target.transport && HANDSHAKE_TRANSPORTS.includes(target.transport)) {
+      probes.push(runProbe(env, backend, target, 'handshake', timeoutMs));
+    }
+  }
+
+  const results = await Promise.all(probes);
+
+  return {
+    checkedAt: Date.now(),
+    healthy: results.every((result) => result.ok),
+    results,
+  };
+}
+
+/** Every distinct backend the Worker may dial: the default pool plus those of host profiles and routes. */
+async function collectBackends(env: Env): Promise<BackendTarget[]> {
+  const backends = new Map<string, BackendTarget>();
+  const pools = [parseBackendPool(env)];
+
+  for (const entry of await loadHostProfiles(env)) {
+    if (entry.profile.backend !== undefined) {
+      pools.push(parseBackendPool(applyHostProfileEnv(env, entry.profile)));
+    }
+  }
+
+  for (const route of await loadRoutes(env)) {
+    if (route.rule.backend !== undefined) {
+      pools.push(parseBackendPool(applyRouteEnv(env, route)));
+    }
+  }
+
+  for (const backend of pools.flat()) {
+    backends.set(backend.key, backend);
+  }
+
+  return [...backends.values()];
+}
+
+/**
+ * Scheduled active health check: probes every backend in the pool and stores the results in the
+ * BACKEND_HEALTH Durable Object, which opens or closes each backend's circuit for the router.
+ */
+export async function runHealthChecks(env: Env): Promise<void> {
+  const debugEnabled = isDebugEnabled(env);
+  const timeoutMs = parsePositiveInteger(env.HEALTH_CHECK_TIMEOUT_MS, HEALTH_CHECK_TIMEOUT_MS);
+  const targets = parseProbeTargets(env);
+  const stub = getHealthStub(env);
+
+  await Promise.all(
+    (await collectBackends(env)).map(async (backend) => {
+      const record = await probeBackend(env, backend, targets, timeoutMs);
+
+      if (debugEnabled) {
+        console.log('[health]', 'backend probed', { backend: backend.key, ...record });
+      }
+
+      if (stub) {
+        await stub.recordProbe(backend.key, record);
+      }
+    }),
+  );
+}
@@ -0,0 +1,138 @@
+import type { CompiledAccessPolicy } from './access-policy';
+import { compileAccessPolicy } from './access-policy';
+import { ROUTES_CACHE_TTL_MS } from './config';
+import { compileHostPattern, validateRouteOptions } from './routes';
+import type { Env, HostProfile, TransportType } from './types';
+import { isProxyProtocol, isTransportType } from './utils/env';
+
+export interface CompiledHostProfile {
+  host: string;
+  pattern: RegExp;
+  wildcard: boolean;
+  profile: HostProfile;
+  access: CompiledAccessPolicy | null;
+}
+
+const HOSTS_KV_KEY = 'hosts';
+
+let cachedSource: string | null = null;
+let cachedProfiles: CompiledHostProfile[] = [];
+let kvLoadedAt = 0;
+
+function compileHostProfile(host: string, profile: HostProfile): CompiledHostProfile {
+  const transports = [...(profile.transport ? [profile.transport] : []), ...(profile.allowedTransports ?? [])];
+
+  for (const transport of transports) {
+    if (!isTransportType(transport)) {
+      throw new Error(`Host profile ${host} has unsupported transport "${String(transport)}".`);
+    }
+  }
+
+  if (profile.protocol !== undefined && !isProxyProtocol(profile.protocol)) {
+    throw new Error(`Host profile ${host} has unsupported protocol "${String(profile.protocol)}".`);
+  }
+
+  if (profile.transport && profile.allowedTransports && !profile.allowedTransports.includes(profile.transport)) {
+    throw new Error(`Host profile ${host} default transport is not in allowedTransports.`);
+  }
+
+  validateRouteOptions(profile.options, `Host profile ${host}`);
+
+  if (profile.landing !== undefined && profile.landing !== 'default' && profile.landing !== 'none') {
+    let landingUrl: URL | null = null;
+
+    try {
+      landingUrl = new URL(profile.landing);
+    } catch {
+      landingUrl = null;
+    }
+
+    if (!landingUrl || (landingUrl.protocol !== 'https:' && landingUrl.protocol !== 'http:')) {
+      throw new Error(`Host profile ${host} landing must be default, none or an http(s) URL.`);
+    }
+  }
+
+  return {
+    host: host.toLowerCase(),
+    pattern: compileHostPattern(host),
+    wildcard: host.startsWith('*.'),
+    profile,
+    access: profile.access ? compileAccessPolicy(profile.access, `Host profile ${host}`) : null,
+  };
+}
+
+export function parseHostProfiles(source: string): CompiledHostProfile[] {
+  const parsed: unknown = JSON.parse(source);
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Host profiles must be a JSON object keyed by hostname.');
+  }
+
+  const profiles = Object.entries(parsed as Record<string, HostProfile>).map(([host, profile]) =>
+    compileHostProfile(host, profile),
+  );
+
+  // Exact hostnames take precedence over wildcards.
+  return [...profiles.filter((entry) => !entry.wildcard), ...profiles.filter((entry) => entry.wildcard)];
+}
+
+/**
+ * Loads hostname profiles from the HOST_PROFILES variable or, when unset, the `hosts` key of the
+ * ROUTES_KV namespace. Cached per isolate like the routing table.
+ */
+export async function loadHostProfiles(env: Env): Promise<CompiledHostProfile[]> {
+  let source = (env.HOST_PROFILES ?? '').trim();
+
+  if (!source && env.ROUTES_KV) {
+    if (cachedSource !== null && Date.now() - kvLoadedAt < ROUTES_CACHE_TTL_MS) {
+      return cachedProfiles;
+    }
+
+    source = ((await env.ROUTES_KV.get(HOSTS_KV_KEY)) ?? '').trim();
+    kvLoadedAt = Date.now();
+  }
+
+  if (source === cachedSource) {
+    return cachedProfiles;
+  }
+
+  const profiles = source ? parseHostProfiles(source) : [];
+  cachedSource = source;
+  cachedProfiles = profiles;
+  return profiles;
+}
+
+export function matchHostProfile(profiles: readonly CompiledHostProfile[], hostname: string): CompiledHostProfile | null {
+  const normalized = hostname.toLowerCase();
+  return profiles.find((entry) => entry.pattern.test(normalized)) ?? null;
+}
+
+/**
+ * Host-scoped configuration: the profile's backend, strategy, transport, protocol and options override
+ * the Worker env.
+ */
+export function applyHostProfileEnv(env: Env, profile: HostProfile): Env {
+  const scoped: Env = { ...env, ...profile.options };
+
+  if (profile.backend !== undefined) {
+    scoped.BACKEND_URLS = Array.isArray(profile.backend) ? profile.backend.join(',') : profile.backend;
+  }
+
+  if (profile.strategy !== undefined) {
+    scoped.BACKEND_STRATEGY = profile.strategy;
+  }
+
+  if (profile.transport !== undefined) {
+    scoped.TRANSPORT = profile.transport;
+  }
+
+  if (profile.protocol !== undefined) {
+    scoped.PROTOCOL = profile.protocol;
+  }
+
+  return scoped;
+}
+
+export function isTransportAllowed(profile: HostProfile | null, transport: TransportType): boolean {
+  return !profile?.allowedTransports || profile.allowedTransports.includes(transport);
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Env } from '../types';
+import { createClientFrameQueue } from '../utils/frames';
+import type { ConnectionLimiter } from '../utils/rate-limit';
+import type { EdgeInboundOptions } from './edge';
+import { terminateAtEdge } from './edge';
+
+const USER_ID = '0d1c2b3a-4e5f-6071-8293-a4b5c6d7e8f9';
+const UNKNOWN_USER_ID = 'ffffffff-4e5f-6071-8293-a4b5c6d7e8f9';
+const VLESS_COMMANDS = { tcp: 1, udp: 2, mux: 3 } as const;
+
+interface FakeDestination {
+  socket: Socket;
+  /** Bytes the Worker wrote to the destination. */
+  written: Uint8Array[];
+}
+
+interface FakeLimiter extends ConnectionLimiter {
+  tracked: number;
+  released: number;
+}
+
+interface EdgeHarness {
+  client: WebSocket;
+  options: EdgeInboundOptions;
+  limiter: FakeLimiter;
+  dialed: SocketAddress[];
+  destination: FakeDestination;
+}
+
+function buildVlessFrame(userId: string, command: keyof typeof VLESS_COMMANDS, payload: string): Uint8Array {
+  const uuid = userId.replace(/-/g, '').match(/../g)?.map((byte) => parseInt(byte, 16)) ?? [];
+  const encoder = new TextEncoder();
+  const header =
+    command === 'mux'
+      ? [0, ...uuid, 0, VLESS_COMMANDS.mux]
+      : [0, ...uuid, 0, VLESS_COMMANDS[command], 0, 80, 2, 11, ...encoder.encode('example.com')];
+
+  return new Uint8Array([...header, ...encoder.encode(payload)]);
+}
+
+/** Destination that answers every connection with `reply` and records what it is sent. */
+function createFakeDestination(reply: string): FakeDestination {
+  const written: Uint8Array[] = [];
+  const socket = {
+    readable: new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(reply));
+      },
+    }),
+    writable: new WritableStream<Uint8Array>({
+      write(chunk) {
+        written.push(chunk);
+      },
+    }),
+    opened: Promise.resolve({ remoteAddress: '192.0.2.1:80', localAddress: '192.0.2.2:40000' }),
+    closed: new Promise<void>(() => {}),
+    close: () => Promise.resolve(),
+  };
+
+  return { socket: socket as unknown as Socket, written };
+}
+
+function createFakeLimiter(): FakeLimiter {
+  const limiter: FakeLimiter = {
+    rejection: null,
+    tracked: 0,
+    released: 0,
+    admit: () => Promise.resolve(null),
+    track: () => {
+      limiter.tracked += 1;
+    },
+    release: () => {
+      limiter.released += 1;
+    },
+  };
+
+  return limiter;
+}
+
+function createHarness(env: Env, earlyData: Uint8Array): EdgeHarness {
+  const [client, workerSocket] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+  client.accept();
+  workerSocket.accept();
+
+  const limiter = createFakeLimiter();
+  const dialed: SocketAddress[] = [];
+  const destination = createFakeDestination('pong');
+
+  return {
+    client,
+    limiter,
+    dialed,
+    destination,
+    options: {
+      env,
+      workerSocket,
+      clientQueue: createClientFrameQueue(workerSocket),
+      logPrefix: '[test]',
+      debugEnabled: false,
+      firstFrameTimeoutMs: 1_000,
+      earlyData,
+      dial: (address) => {
+        dialed.push(address);
+        return destination.socket;
+      },
+      onRelayError: () => {},
+      limiter,
+    },
+  };
+}
+
+function nextMessage(socket: WebSocket): Promise<Uint8Array> {
+  return new Promise((resolve) => {
+    socket.addEventListener('message', (event) => resolve(new Uint8Array(event.data as ArrayBuffer)), {
+      once: true,
+    });
+  });
+}
+
+function nextClose(socket: WebSocket): Promise<CloseEvent> {
+  return new Promise((resolve) => {
+    socket.addEventListener('close', resolve, { once: true });
+  });
+}
+
+describe('terminateAtEdge', () => {
+  const env = { VLESS_INBOUND: 'true', VLESS_UUIDS: USER_ID } as Env;
+
+  it('dials the destination of an allowed VLESS user and relays both ways', async () => {
+    const harness = createHarness(env, buildVlessFrame(USER_ID, 'tcp', 'ping'));
+    const reply = nextMessage(harness.client);
+
+    await terminateAtEdge(harness.options);
+
+    expect(harness.dialed).toEqual([{ hostname: 'example.com', port: 80 }]);
+    expect(new TextDecoder().decode(await reply)).toBe('\0\0pong');
+    expect(harness.destination.written.map((chunk) => new TextDecoder().decode(chunk))).toEqual(['ping']);
+    expect(harness.limiter).toMatchObject({ tracked: 1, released: 0 });
+    harness.client.close(1000, 'done');
+  });
+
+  it('drops an unknown user without dialing', async () => {
+    const harness = createHarness(env, buildVlessFrame(UNKNOWN_USER_ID, 'tcp', 'ping'));
+    const closed = nextClose(harness.client);
+
+    await terminateAtEdge(harness.options);
+
+    expect((await closed).code).toBe(1008);
+    expect(harness.dialed).toEqual([]);
+    expect(harness.limiter).toMatchObject({ tracked: 0, released: 1 });
+  });
+
+  it('closes VLESS mux with 1003 without dialing', async () => {
+    const harness = createHarness(env, buildVlessFrame(USER_ID, 'mux', ''));
+    const closed = nextClose(harness.client);
+
+    await terminateAtEdge(harness.options);
+
+    expect((await closed).code).toBe(1003);
+    expect(harness.dialed).toEqual([]);
+    expect(harness.limiter).toMatchObject({ tracked: 0, released: 1 });
+  });
+
+  it('closes with 1011 when the user lookup fails', async () => {
+    const usersKv = { get: () => Promise.reject(new Error('KV unavailable')) } as unknown as KVNamespace;
+    const harness = createHarness(
+      { ...env, VLESS_UUIDS: '', USERS_KV: usersKv },
+      buildVlessFrame(USER_ID, 'tcp', 'ping'),
+    );
+    const closed = nextClose(harness.client);
+
+    await terminateAtEdge(harness.options);
+
+    expect((await closed).code).toBe(1011);
+    expect(harness.dialed).toEqual([]);
+    expect(harness.limiter).toMatchObject({ tracked: 0, released: 1 });
+  });
+});
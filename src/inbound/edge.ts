@@ -0,0 +1,264 @@
+import { isTrojanPasswordAllowed } from '../auth/trojan';
+import { isVlessUserAllowed } from '../auth/vless';
+import { checkDestination } from '../destination-policy';
+import { parseTrojanRequest, readTrojanPasswordHash } from '../protocols/trojan';
+import { buildVlessResponseHeader, parseVlessRequest } from '../protocols/vless';
+import type { Env } from '../types';
+import { rejectClient } from '../utils/deferred-relay';
+import type { ClientFrameQueue } from '../utils/frames';
+import { toBytes } from '../utils/frames';
+import type { ConnectionLimiter } from '../utils/rate-limit';
+import { getRelayPolicy } from '../utils/relay-policy';
+import type { RelayDirection, RelayHandle, WebSocketPayload } from '../utils/socket';
+import { safeClose } from '../utils/socket';
+import type { TcpDial } from '../utils/tcp';
+import { bridgeWebSocketToTcp, dialTcp } from '../utils/tcp';
+
+export type EdgeProtocol = 'vless' | 'trojan';
+
+export interface EdgeInboundOptions {
+  env: Env;
+  workerSocket: WebSocket;
+  /** Captures client frames from the moment the socket was accepted. */
+  clientQueue: ClientFrameQueue;
+  logPrefix: string;
+  debugEnabled: boolean;
+  firstFrameTimeoutMs: number;
+  /** First client frame when it already arrived as early data. */
+  earlyData?: Uint8Array | null;
+  dial?: TcpDial;
+  onRelayError: (direction: RelayDirection, error: unknown) => void;
+  /** Counts the connection against the client limits; released when the relay ends. */
+  limiter: ConnectionLimiter;
+}
+
+interface EdgeRequest {
+  protocol: EdgeProtocol;
+  /** VLESS UUID or Trojan password hash. */
+  userId: string;
+  command: string;
+  hostname: string;
+  port: number;
+  payload: Uint8Array;
+  /** Bytes sent ahead of the first downstream data (VLESS only). */
+  responseHeader: Uint8Array | null;
+}
+
+function isVlessInboundEnabled(env: Env): boolean {
+  return env.VLESS_INBOUND === 'true';
+}
+
+function isTrojanInboundEnabled(env: Env): boolean {
+  return env.TROJAN_INBOUND === 'true';
+}
+
+export function isEdgeInboundEnabled(env: Env): boolean {
+  return isVlessInboundEnabled(env) || isTrojanInboundEnabled(env);
+}
+
+/** A declared PROTOCOL wins; otherwise a Trojan hash prefix selects Trojan and anything else is VLESS. */
+function detectEdgeProtocol(env: Env, firstFrame: Uint8Array): EdgeProtocol {
+  if (env.PROTOCOL === 'vless' || env.PROTOCOL === 'trojan') {
+    return env.PROTOCOL;
+  }
+
+  return readTrojanPasswordHash(firstFrame) ? 'trojan' : 'vless';
+}
+
+function parseEdgeRequest(env: Env, firstFrame: Uint8Array): EdgeRequest {
+  const protocol = detectEdgeProtocol(env, firstFrame);
+
+  if (protocol === 'trojan') {
+    if (!isTrojanInboundEnabled(env)) {
+      throw new Error('Trojan edge termination is not enabled.');
+    }
+
+    const request = parseTrojanRequest(firstFrame);
+    return { ...request, protocol, userId: request.passwordHash, responseHeader: null };
+  }
+
+  if (!isVlessInboundEnabled(env)) {
+    throw new Error('VLESS edge termination is not enabled.');
+  }
+
+  const request = parseVlessRequest(firstFrame);
+  return { ...request, protocol, responseHeader: buildVlessResponseHeader(request.version) };
+}
+
+function isEdgeUserAllowed(env: Env, request: EdgeRequest): Promise<boolean> {
+  return request.protocol === 'trojan'
+    ? isTrojanPasswordAllowed(env, request.userId)
+    : isVlessUserAllowed(env, request.userId);
+}
+
+async function openEdgeRelay(options: EdgeInboundOptions): Promise<RelayHandle | null> {
+  const { env, workerSocket, logPrefix, debugEnabled, clientQueue: queue } = options;
+  let firstFrame: Uint8Array | null;
+
+  try {
+    firstFrame = options.earlyData ?? (await toBytes(await queue.first(options.firstFrameTimeoutMs)));
+  } catch (error) {
+    queue.drain();
+    safeClose(workerSocket, 1008, 'No client data');
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'first frame not received', { error });
+    }
+
+    return null;
+  }
+
+  if (!firstFrame) {
+    queue.drain();
+    safeClose(workerSocket, 1003, 'Unsupported data');
+    return null;
+  }
+
+  let request: EdgeRequest;
+
+  try {
+    request = parseEdgeRequest(env, firstFrame);
+  } catch (error) {
+    queue.drain();
+    safeClose(workerSocket, 1002, 'Invalid request header');
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'invalid request header', { error });
+    }
+
+    return null;
+  }
+
+  let userAllowed: boolean;
+
+  try {
+    userAllowed = await isEdgeUserAllowed(env, request);
+  } catch (error) {
+    // A failing USERS_KV lookup must not leave the client socket and its queue open.
+    queue.drain();
+    safeClose(workerSocket, 1011, 'User check failed');
+
+    if (debugEnabled) {
+      console.error(logPrefix, 'user check error', error);
+    }
+
+    return null;
+  }
+
+  if (!userAllowed) {
+    queue.drain();
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'client rejected before dialing destination', {
+        protocol: request.protocol,
+        userId: request.userId,
+      });
+    }
+
+    await rejectClient(workerSocket, 'drop');
+    return null;
+  }
+
+  const limitReason = await options.limiter.admit(request.userId, firstFrame);
+
+  if (limitReason) {
+    queue.drain();
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'client over its limits', {
+        reason: limitReason,
+        userId: request.userId,
+      });
+    }
+
+    safeClose(workerSocket, 1013, limitReason);
+    return null;
+  }
+
+  if (request.command !== 'tcp') {
+    queue.drain();
+    safeClose(workerSocket, 1003, `Unsupported ${request.protocol} command ${request.command}`);
+    return null;
+  }
+
+  const decision = checkDestination(
+    env,
+    { hostname: request.hostname, port: request.port, userId: request.userId },
+    logPrefix,
+  );
+
+  if (!decision.allowed) {
+    queue.drain();
+    safeClose(workerSocket, 1008, 'Destination not allowed');
+    return null;
+  }
+
+  if (debugEnabled) {
+    console.log(logPrefix, 'dialing destination', {
+      protocol: request.protocol,
+      userId: request.userId,
+      hostname: request.hostname,
+      port: request.port,
+    });
+  }
+
+  const dial = options.dial ?? dialTcp;
+  let tcpSocket: Socket;
+
+  try {
+    tcpSocket = dial({ hostname: request.hostname, port: request.port });
+    await tcpSocket.opened;
+  } catch (error) {
+    queue.drain();
+    safeClose(workerSocket, 1011, 'Destination unreachable');
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'destination dial failed', { error });
+    }
+
+    return null;
+  }
+
+  // When the header came in a frame, it is the first queued frame and only its payload is forwarded.
+  const queuedFrames = queue.drain();
+  const pendingFrames: WebSocketPayload[] = [
+    request.payload,
+    ...(options.earlyData ? queuedFrames : queuedFrames.slice(1)),
+  ];
+
+  if (queue.isClosed()) {
+    tcpSocket.close().catch(() => {
+      // Ignore close errors; nothing was relayed yet.
+    });
+    return null;
+  }
+
+  return bridgeWebSocketToTcp(
+    workerSocket,
+    tcpSocket,
+    options.onRelayError,
+    pendingFrames,
+    request.responseHeader,
+    getRelayPolicy(env, request.userId),
+  );
+}
+
+/**
+ * Edge inbound mode: the Worker terminates VLESS (VLESS_INBOUND) or Trojan (TROJAN_INBOUND) itself
+ * instead of relaying to a backend. The request header of the first client frame is parsed, the user
+ * must be on the protocol's allowlist and within its limits, and the destination is checked against the
+ * destination policy and dialed with `cloudflare:sockets`. Only TCP requests are supported.
+ */
+export async function terminateAtEdge(options: EdgeInboundOptions): Promise<void> {
+  let relay: RelayHandle | null = null;
+
+  try {
+    relay = await openEdgeRelay(options);
+  } finally {
+    if (relay) {
+      options.limiter.track(relay);
+    } else {
+      options.limiter.release();
+    }
+  }
+}
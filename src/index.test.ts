@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import worker from './index';
+import type { Env } from './types';
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+// base64url of "hello", sent as early data.
+const EARLY_DATA = 'aGVsbG8';
+
+interface Upgrade {
+  response: Response;
+  /** URLs of the handshakes that reached the backend. */
+  backendUrls: string[];
+}
+
+async function upgrade(path: string, env: Partial<Env> = {}): Promise<Upgrade> {
+  const backendUrls: string[] = [];
+  const origin = {
+    fetch: (input: RequestInfo | URL) => {
+      backendUrls.push(new Request(input).url);
+      const [client] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+      return Promise.resolve(new Response(null, { status: 101, webSocket: client }));
+    },
+  };
+  const request = new Request(`https://proxy.example.com${path}`, {
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version': '13',
+      'Sec-WebSocket-Protocol': EARLY_DATA,
+    },
+  });
+  const response = await worker.fetch(
+    request,
+    { BACKEND_URLS: 'service:ORIGIN', ORIGIN: origin, TRANSPORT: 'grpc', ...env } as unknown as Env,
+    ctx,
+  );
+
+  return { response, backendUrls };
+}
+
+describe('early-data hint routing', () => {
+  it('selects the path transport of a path carrying the encoded hint', async () => {
+    const { response, backendUrls } = await upgrade('/ws%3Fed%3D2048');
+
+    expect(response.status).toBe(101);
+    expect(response.headers.get('Sec-WebSocket-Protocol')).toBe(EARLY_DATA);
+    expect(backendUrls).toEqual(['http://origin/']);
+  });
+
+  it('matches routing rules on the path without the encoded hint', async () => {
+    const { response, backendUrls } = await upgrade('/tunnel%3Fed%3D2048', {
+      ROUTES: JSON.stringify([
+        { name: 'tunnel', match: { pathPrefix: '/tunnel' }, transport: 'ws' },
+      ]),
+    });
+
+    expect(response.status).toBe(101);
+    expect(backendUrls).toEqual(['http://origin/tunnel']);
+  });
+
+  it('answers 400 to an invalid hint', async () => {
+    const { response, backendUrls } = await upgrade('/ws?ed=abc');
+
+    expect(response.status).toBe(400);
+    expect(backendUrls).toEqual([]);
+  });
+});
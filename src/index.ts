@@ -1,26 +1,47 @@
+import type { CompiledAccessPolicy } from './access-policy';
+import { checkClientAccess, getGlobalAccessPolicy, readClientInfo, rejectAccess } from './access-policy';
 import { DEFAULT_TRANSPORT, SUPPORTED_TRANSPORTS } from './config';
-import { renderLandingPage } from './landing';
+import { runHealthChecks } from './health-check';
+import type { CompiledHostProfile } from './hosts';
+import { applyHostProfileEnv, isTransportAllowed, loadHostProfiles, matchHostProfile } from './hosts';
+import { renderLandingSetting } from './landing';
+import type { CompiledRoute, RouteMatch } from './routes';
+import { applyRouteEnv, loadRoutes, matchRoute } from './routes';
+import { handleUpgrade as handleGrpcUpgrade } from './transports/grpc';
 import { handleUpgrade as handleHttpUpgrade } from './transports/httpupgrade';
 import { handleUpgrade as handleWsUpgrade } from './transports/ws';
 import { handleUpgrade as handleXhttpUpgrade } from './transports/xhttp';
 import type { Env, TransportType } from './types';
-
-type UpgradeHandler = (request: Request, env: Env) => Promise<Response>;
+import { syncCircuitState } from './utils/circuit-breaker';
+import type { EarlyDataHint } from './utils/early-data';
+import { parseEarlyDataHint } from './utils/early-data';
+import { isTransportType } from './utils/env';
+import { hasUpgradeRequest } from './utils/socket';
+
+export { BackendHealth } from './state/backend-health';
+export { ClientLimits } from './state/client-limits';
+export { TrafficUsage } from './state/traffic-usage';
+export { XhttpSessions } from './state/xhttp-sessions';
+
+/** Transport handler; `earlyDataBytes` is the `ed` hint of an upgrade, already removed from the URL. */
+type UpgradeHandler = (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  earlyDataBytes: number,
+) => Promise<Response>;
 
 const HANDLERS: Record<TransportType, UpgradeHandler> = {
   xhttp: handleXhttpUpgrade,
   httpupgrade: handleHttpUpgrade,
   ws: handleWsUpgrade,
+  grpc: handleGrpcUpgrade,
 };
 
 function isDebugEnabled(env: Env): boolean {
   return env.DEBUG === 'true';
 }
 
-function isTransportType(value: string): value is TransportType {
-  return (SUPPORTED_TRANSPORTS as readonly string[]).includes(value);
-}
-
 function getDefaultTransport(env: Env): TransportType {
   const configured = (env.TRANSPORT ?? '').toLowerCase();
 
@@ -125,6 +146,38 @@ function stripRoutingSelectors(request: Request): Request {
   return buildForwardRequest(request, url, headers);
 }
 
+interface RoutingDecision {
+  transport: TransportType;
+  request: Request;
+  forwardedPath: string;
+}
+
+function resolvePathRouting(request: Request, requestUrl: URL, env: Env): RoutingDecision {
+  const { transport: pathTransport, forwardedPath } = parsePathTransport(requestUrl.pathname);
+  const transport = resolveTransport(request, requestUrl, env, pathTransport);
+
+  return {
+    transport,
+    request: toForwardedRequest(request, transport, pathTransport, forwardedPath, requestUrl.pathname),
+    forwardedPath:
+      pathTransport && pathTransport === transport && forwardedPath !== requestUrl.pathname
+        ? forwardedPath
+        : requestUrl.pathname,
+  };
+}
+
+function resolveRouteMatch(request: Request, requestUrl: URL, env: Env, routeMatch: RouteMatch): RoutingDecision {
+  // A routing rule owns the path, so /{transport} prefixes are not interpreted for matched requests.
+  const transport = routeMatch.route.rule.transport ?? resolveTransport(request, requestUrl, env, null);
+  const { forwardedPath } = routeMatch;
+
+  return {
+    transport,
+    request: forwardedPath !== requestUrl.pathname ? rewritePath(request, forwardedPath) : request,
+    forwardedPath,
+  };
+}
+
 function textResponse(status: number, message: string): Response {
   return new Response(message, {
     status,
@@ -174,41 +227,91 @@ function buildForwardRequest(request: Request, url: string, headers: HeadersInit
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const debugEnabled = isDebugEnabled(env);
     const requestUrl = new URL(request.url);
 
-    if (isLandingPageRequest(request, requestUrl.pathname)) {
-      return renderLandingPage();
+    let hostProfiles: CompiledHostProfile[];
+    let routes: CompiledRoute[];
+    let globalAccess: CompiledAccessPolicy | null;
+
+    try {
+      [hostProfiles, routes] = await Promise.all([loadHostProfiles(env), loadRoutes(env)]);
+      globalAccess = getGlobalAccessPolicy(env);
+    } catch (error) {
+      if (debugEnabled) {
+        console.error('[cf-xray-proxy] invalid routing configuration', error);
+      }
+
+      return textResponse(500, 'Invalid routing configuration.');
+    }
+
+    const hostMatch = matchHostProfile(hostProfiles, requestUrl.hostname);
+    const hostEnv = hostMatch ? applyHostProfileEnv(env, hostMatch.profile) : env;
+    const landing = hostMatch?.profile.landing ?? 'default';
+
+    if (landing !== 'none' && isLandingPageRequest(request, requestUrl.pathname)) {
+      return renderLandingSetting(landing);
+    }
+
+    let earlyDataHint: EarlyDataHint = { maxBytes: 0, url: requestUrl };
+
+    if (hasUpgradeRequest(request, false)) {
+      try {
+        earlyDataHint = parseEarlyDataHint(requestUrl);
+      } catch (error) {
+        return textResponse(400, error instanceof Error ? error.message : 'Invalid early-data hint.');
+      }
     }
 
-    const { transport: pathTransport, forwardedPath } = parsePathTransport(requestUrl.pathname);
-    const transport = resolveTransport(request, requestUrl, env, pathTransport);
-    const transportRoutedRequest = toForwardedRequest(
-      request,
-      transport,
-      pathTransport,
-      forwardedPath,
-      requestUrl.pathname,
-    );
-    const forwardedRequest = stripRoutingSelectors(transportRoutedRequest);
+    // The ed hint only concerns the Worker: routes, path transports and the backend see the plain path.
+    const routedUrl = earlyDataHint.url;
+    const routedRequest =
+      routedUrl.href === request.url ? request : buildForwardRequest(request, routedUrl.href, request.headers);
+    const routeMatch = matchRoute(routes, routedRequest, routedUrl);
+    const requestEnv = routeMatch ? applyRouteEnv(hostEnv, routeMatch.route) : hostEnv;
+    const routing = routeMatch
+      ? resolveRouteMatch(routedRequest, routedUrl, requestEnv, routeMatch)
+      : resolvePathRouting(routedRequest, routedUrl, hostEnv);
+    const { transport } = routing;
+    const forwardedRequest = stripRoutingSelectors(routing.request);
     const handler = HANDLERS[transport];
 
     if (debugEnabled) {
-      const forwardedPathForLog =
-        pathTransport && pathTransport === transport && forwardedPath !== requestUrl.pathname
-          ? forwardedPath
-          : requestUrl.pathname;
-
       console.log('[cf-xray-proxy]', 'routing request', {
         originalPath: requestUrl.pathname,
-        forwardedPath: forwardedPathForLog,
+        earlyDataHint: earlyDataHint.maxBytes,
+        forwardedPath: routing.forwardedPath,
         transport,
+        route: routeMatch?.route.name ?? null,
+        hostProfile: hostMatch?.host ?? null,
       });
     }
 
+    const access = checkClientAccess(requestEnv, readClientInfo(request), [
+      { scope: 'global', policy: globalAccess },
+      { scope: `host ${hostMatch?.host ?? ''}`, policy: hostMatch?.access ?? null },
+      { scope: `route ${routeMatch?.route.name ?? ''}`, policy: routeMatch?.route.access ?? null },
+    ]);
+
+    if (access && !access.allowed) {
+      return rejectAccess(request, access.reject, landing);
+    }
+
+    if (!isTransportAllowed(hostMatch?.profile ?? null, transport)) {
+      return textResponse(403, 'Transport not allowed for this host.');
+    }
+
     try {
-      return await handler(forwardedRequest, env);
+      await syncCircuitState(requestEnv);
+    } catch (error) {
+      if (debugEnabled) {
+        console.error('[cf-xray-proxy] backend health sync failed', error);
+      }
+    }
+
+    try {
+      return await handler(forwardedRequest, requestEnv, ctx, earlyDataHint.maxBytes);
     } catch (error) {
       if (debugEnabled) {
         console.error('[cf-xray-proxy] unhandled transport error', error);
@@ -217,4 +320,12 @@ export default {
       return textResponse(502, 'Backend connection failed.');
     }
   },
+
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    if (isDebugEnabled(env)) {
+      console.log('[cf-xray-proxy]', 'running scheduled health checks', { cron: controller.cron });
+    }
+
+    await runHealthChecks(env);
+  },
 };
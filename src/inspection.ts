@@ -0,0 +1,148 @@
+import { isTrojanAuthEnabled, isTrojanPasswordAllowed } from './auth/trojan';
+import { isVlessAuthEnabled, isVlessUserAllowed } from './auth/vless';
+import { authenticateVmess, getVmessRejectBehaviour, isVmessAuthEnabled } from './auth/vmess';
+import type { Destination } from './destination-policy';
+import { checkDestination, isDestinationPolicyEnabled } from './destination-policy';
+import { parseTrojanRequest, readTrojanPasswordHash } from './protocols/trojan';
+import { VLESS_VERSION, parseVlessRequest, readVlessUserId } from './protocols/vless';
+import { isProtocolSniffingEnabled } from './sniffing';
+import type { Env, InspectionVerdict } from './types';
+
+const INSPECTION_LOG_PREFIX = '[inspection]';
+
+/** True when the first client frame must be checked before a backend connection is opened. */
+export function needsFirstFrameInspection(env: Env): boolean {
+  return (
+    isVlessAuthEnabled(env) ||
+    isVmessAuthEnabled(env) ||
+    isTrojanAuthEnabled(env) ||
+    isDestinationPolicyEnabled(env) ||
+    isProtocolSniffingEnabled(env)
+  );
+}
+
+/** User named by a plaintext first frame: a Trojan password hash or a VLESS UUID. */
+export function readFrameUserId(frame: Uint8Array): string | null {
+  return readTrojanPasswordHash(frame) ?? readVlessUserId(frame);
+}
+
+/** Destination read from a first frame; `reason` says why a VLESS or Trojan header could not be read. */
+type FrameDestination = { destination: Destination } | { destination: null; reason: string };
+
+/**
+ * Destination of a plaintext Trojan or VLESS header, or null when the frame carries neither. A frame
+ * counts as VLESS when it starts with the VLESS version byte, unless the route declares another protocol.
+ */
+function readDestination(env: Env, firstFrame: Uint8Array): FrameDestination | null {
+  const protocol = env.PROTOCOL;
+  const isTrojan = protocol === 'trojan' || (!protocol && readTrojanPasswordHash(firstFrame) !== null);
+  const isVless = protocol === 'vless' || (!protocol && !isTrojan && firstFrame[0] === VLESS_VERSION);
+
+  if (!isTrojan && !isVless) {
+    return null;
+  }
+
+  try {
+    if (isTrojan) {
+      const request = parseTrojanRequest(firstFrame);
+      return { destination: { hostname: request.hostname, port: request.port, userId: request.passwordHash } };
+    }
+
+    const request = parseVlessRequest(firstFrame);
+
+    if (request.command === 'mux') {
+      return { destination: null, reason: 'VLESS mux carries no destination' };
+    }
+
+    return { destination: { hostname: request.hostname, port: request.port, userId: request.userId } };
+  } catch (error) {
+    return { destination: null, reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * The destination policy applies to frames whose target can be read at the edge. VLESS and Trojan
+ * frames whose header cannot be read (truncated, split across frames, or mux) fail closed; encrypted
+ * protocols (VMess, Shadowsocks) are left to the backend.
+ */
+function inspectDestination(env: Env, firstFrame: Uint8Array, userId: string | null): InspectionVerdict {
+  const read = isDestinationPolicyEnabled(env) ? readDestination(env, firstFrame) : null;
+
+  if (!read) {
+    return { allowed: true, userId };
+  }
+
+  if (!read.destination) {
+    return {
+      allowed: false,
+      reason: `Destination unreadable: ${read.reason}`,
+      behaviour: 'drop',
+      closeReason: 'Destination not allowed',
+    };
+  }
+
+  const { destination } = read;
+  const decision = checkDestination(env, destination, INSPECTION_LOG_PREFIX);
+
+  if (!decision.allowed) {
+    return {
+      allowed: false,
+      reason: `Destination ${destination.hostname}:${destination.port} blocked by ${decision.rule}`,
+      behaviour: 'drop',
+      closeReason: 'Destination not allowed',
+    };
+  }
+
+  return { allowed: true, userId };
+}
+
+/**
+ * With several protocols authenticated at the edge a frame is accepted by any of them. Trojan is
+ * recognised by its plaintext hash prefix; VMess is tried before VLESS because a VLESS header never
+ * decrypts to a valid authID.
+ */
+export async function inspectFirstFrame(env: Env, firstFrame: Uint8Array): Promise<InspectionVerdict> {
+  const vmessEnabled = isVmessAuthEnabled(env);
+  const behaviour = vmessEnabled ? getVmessRejectBehaviour(env) : 'drop';
+  const trojanHash = isTrojanAuthEnabled(env) ? readTrojanPasswordHash(firstFrame) : null;
+
+  if (trojanHash) {
+    if (!(await isTrojanPasswordAllowed(env, trojanHash))) {
+      return { allowed: false, reason: 'Unknown Trojan password', behaviour };
+    }
+
+    return inspectDestination(env, firstFrame, trojanHash);
+  }
+
+  if (vmessEnabled) {
+    const result = await authenticateVmess(env, firstFrame);
+
+    if (result.ok) {
+      return { allowed: true, userId: result.userId };
+    }
+
+    if (!isVlessAuthEnabled(env)) {
+      return { allowed: false, reason: result.reason, behaviour };
+    }
+  }
+
+  if (isVlessAuthEnabled(env)) {
+    const userId = readVlessUserId(firstFrame);
+
+    if (!userId) {
+      return { allowed: false, reason: 'Malformed VLESS header', behaviour };
+    }
+
+    if (!(await isVlessUserAllowed(env, userId))) {
+      return { allowed: false, reason: `Unknown VLESS user ${userId}`, behaviour };
+    }
+
+    return inspectDestination(env, firstFrame, userId);
+  }
+
+  if (isTrojanAuthEnabled(env)) {
+    return { allowed: false, reason: 'Malformed Trojan header', behaviour };
+  }
+
+  return inspectDestination(env, firstFrame, null);
+}
@@ -1,3 +1,6 @@
+import type { LandingSetting } from './types';
+import { fetchWithTimeout, LANDING_FETCH_TIMEOUT_MS } from './utils/fetch';
+
 export function renderLandingPage(): Response {
   const telegramUrl = 'https://t.me/Cortex_HQ';
   const githubUrl = 'https://github.com/YrustPd/cf-xray-proxy.git';
@@ -268,3 +271,30 @@ export function renderLandingPage(): Response {
     },
   });
 }
+
+/**
+ * Serves the landing page configured for a host: the built-in page or a page fetched from a URL. An
+ * unreachable URL falls back to the built-in page, and only successful pages are marked cacheable.
+ */
+export async function renderLandingSetting(setting: LandingSetting): Promise<Response> {
+  if (setting === 'default') {
+    return renderLandingPage();
+  }
+
+  let upstream: Response;
+
+  try {
+    upstream = await fetchWithTimeout(setting, { redirect: 'follow' }, LANDING_FETCH_TIMEOUT_MS);
+  } catch (error) {
+    console.error('[landing] landing page fetch failed', error);
+    return renderLandingPage();
+  }
+
+  const headers = new Headers(upstream.headers);
+  headers.set('cache-control', upstream.ok ? 'public, max-age=3600' : 'no-store');
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers,
+  });
+}
@@ -0,0 +1,42 @@
+export type AddressKind = 'ipv4' | 'domain' | 'ipv6';
+
+export interface ParsedAddress {
+  /** Destination host; IPv6 literals are bracketed so they can be dialed as-is. */
+  hostname: string;
+  /** Offset of the first byte after the address. */
+  end: number;
+}
+
+/** Reads a proxy-protocol address: 4 bytes, a length-prefixed domain, or 16 bytes. Throws when truncated. */
+export function readAddress(chunk: Uint8Array, offset: number, kind: AddressKind): ParsedAddress {
+  if (kind === 'ipv4') {
+    if (chunk.byteLength < offset + 4) {
+      throw new Error('Truncated IPv4 address.');
+    }
+
+    return { hostname: Array.from(chunk.subarray(offset, offset + 4)).join('.'), end: offset + 4 };
+  }
+
+  if (kind === 'domain') {
+    const length = chunk[offset] ?? 0;
+    const end = offset + 1 + length;
+
+    if (length === 0 || chunk.byteLength < end) {
+      throw new Error('Truncated domain address.');
+    }
+
+    return { hostname: new TextDecoder().decode(chunk.subarray(offset + 1, end)), end };
+  }
+
+  if (chunk.byteLength < offset + 16) {
+    throw new Error('Truncated IPv6 address.');
+  }
+
+  const view = new DataView(chunk.buffer, chunk.byteOffset + offset, 16);
+  const groups = Array.from({ length: 8 }, (_, index) => view.getUint16(index * 2).toString(16));
+  return { hostname: `[${groups.join(':')}]`, end: offset + 16 };
+}
+
+export function readPort(chunk: Uint8Array, offset: number): number {
+  return ((chunk[offset] as number) << 8) | (chunk[offset + 1] as number);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeGunPayload, readGrpcFrameLength } from './gun';
+
+function frame(message: number[], compressed = 0): Uint8Array {
+  const length = message.length;
+  return new Uint8Array([
+    compressed,
+    length >>> 24,
+    length >>> 16,
+    length >>> 8,
+    length,
+    ...message,
+  ]);
+}
+
+describe('readGrpcFrameLength', () => {
+  it('waits for the full prefix, then adds the declared message length', () => {
+    expect(readGrpcFrameLength(new Uint8Array([0, 0, 0, 1]))).toBeNull();
+    expect(readGrpcFrameLength(new Uint8Array([0, 0, 0, 1, 2]))).toBe(5 + 258);
+  });
+});
+
+describe('decodeGunPayload', () => {
+  it('returns the bytes of the data field', () => {
+    expect([...decodeGunPayload(frame([0x0a, 3, 1, 2, 3]))]).toEqual([1, 2, 3]);
+  });
+
+  it('reads multi-byte varint lengths', () => {
+    const payload = Array.from({ length: 200 }, (_, index) => index);
+    const decoded = decodeGunPayload(frame([0x0a, 0xc8, 0x01, ...payload]));
+
+    expect(decoded.byteLength).toBe(200);
+    expect(decoded[199]).toBe(199);
+  });
+
+  it('rejects compressed, foreign and truncated messages', () => {
+    expect(() => decodeGunPayload(frame([0x0a, 1, 1], 1))).toThrow('Compressed');
+    expect(() => decodeGunPayload(frame([0x12, 1, 1]))).toThrow('data field');
+    expect(() => decodeGunPayload(frame([0x0a, 5, 1, 2]))).toThrow('Truncated');
+    expect(() => decodeGunPayload(frame([0x0a, 0x80, 0x80]))).toThrow('varint');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Xray's gRPC tunnel ("gun") sends `Hunk { bytes data = 1; }` (Tun) or `MultiHunk { repeated bytes data = 1; }`
+ * (TunMulti) messages, each in a gRPC frame: `compressed(1) | length(4) | protobuf message`.
+ */
+export const GRPC_FRAME_PREFIX_BYTES = 5;
+
+const DATA_FIELD_TAG = 0x0a;
+
+/** Total size of the first gRPC frame, or null while its prefix is incomplete. */
+export function readGrpcFrameLength(buffered: Uint8Array): number | null {
+  if (buffered.byteLength < GRPC_FRAME_PREFIX_BYTES) {
+    return null;
+  }
+
+  const view = new DataView(buffered.buffer, buffered.byteOffset, GRPC_FRAME_PREFIX_BYTES);
+  return GRPC_FRAME_PREFIX_BYTES + view.getUint32(1);
+}
+
+function readVarint(bytes: Uint8Array, offset: number): { value: number; end: number } {
+  let value = 0;
+  let shift = 0;
+  let index = offset;
+
+  while (index < bytes.byteLength && shift < 35) {
+    const byte = bytes[index] as number;
+    value += (byte & 0x7f) * 2 ** shift;
+    index += 1;
+
+    if ((byte & 0x80) === 0) {
+      return { value, end: index };
+    }
+
+    shift += 7;
+  }
+
+  throw new Error('Malformed protobuf varint.');
+}
+
+/** Tunnel bytes carried by the first `data` field of a complete gun frame. Throws when malformed. */
+export function decodeGunPayload(frame: Uint8Array): Uint8Array {
+  if (frame[0] !== 0) {
+    throw new Error('Compressed gRPC messages are not supported.');
+  }
+
+  const message = frame.subarray(GRPC_FRAME_PREFIX_BYTES);
+
+  if (message[0] !== DATA_FIELD_TAG) {
+    throw new Error('gRPC message does not start with a data field.');
+  }
+
+  const { value: length, end } = readVarint(message, 1);
+
+  if (message.byteLength < end + length) {
+    throw new Error('Truncated gRPC data field.');
+  }
+
+  return message.subarray(end, end + length);
+}
@@ -0,0 +1,72 @@
+import type { AddressKind } from './address';
+import { readAddress, readPort } from './address';
+
+/** Trojan request: `hex(SHA224(password))(56) | CRLF | command(1) | address | CRLF | payload`. */
+export const TROJAN_HASH_HEX_LENGTH = 56;
+
+const CR = 0x0d;
+const LF = 0x0a;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+/** Reads the password hash from the first client frame, or null when the frame is not Trojan. */
+export function readTrojanPasswordHash(chunk: Uint8Array): string | null {
+  if (
+    chunk.byteLength < TROJAN_HASH_HEX_LENGTH + 2 ||
+    chunk[TROJAN_HASH_HEX_LENGTH] !== CR ||
+    chunk[TROJAN_HASH_HEX_LENGTH + 1] !== LF
+  ) {
+    return null;
+  }
+
+  const hash = new TextDecoder().decode(chunk.subarray(0, TROJAN_HASH_HEX_LENGTH));
+  return HEX_PATTERN.test(hash) ? hash.toLowerCase() : null;
+}
+
+export type TrojanCommand = 'tcp' | 'udp';
+
+export interface TrojanRequest {
+  passwordHash: string;
+  command: TrojanCommand;
+  /** Destination host; IPv6 literals are bracketed so they can be dialed as-is. */
+  hostname: string;
+  port: number;
+  /** Client data that followed the header in the same frame. */
+  payload: Uint8Array;
+}
+
+const COMMANDS: Record<number, TrojanCommand> = { 1: 'tcp', 3: 'udp' };
+const ADDRESS_KINDS: Record<number, AddressKind> = { 1: 'ipv4', 3: 'domain', 4: 'ipv6' };
+
+/**
+ * Parses the Trojan request header:
+ * `hash(56) | CRLF | command(1) | addressType(1) | address | port(2) | CRLF`.
+ * Throws when the header is truncated or malformed.
+ */
+export function parseTrojanRequest(chunk: Uint8Array): TrojanRequest {
+  const passwordHash = readTrojanPasswordHash(chunk);
+
+  if (!passwordHash) {
+    throw new Error('Malformed Trojan header.');
+  }
+
+  const commandOffset = TROJAN_HASH_HEX_LENGTH + 2;
+  const command = COMMANDS[chunk[commandOffset] as number];
+
+  if (!command) {
+    throw new Error(`Unsupported Trojan command ${String(chunk[commandOffset])}.`);
+  }
+
+  const addressKind = ADDRESS_KINDS[chunk[commandOffset + 1] as number];
+
+  if (!addressKind) {
+    throw new Error(`Unsupported Trojan address type ${String(chunk[commandOffset + 1])}.`);
+  }
+
+  const { hostname, end } = readAddress(chunk, commandOffset + 2, addressKind);
+
+  if (chunk.byteLength < end + 4 || chunk[end + 2] !== CR || chunk[end + 3] !== LF) {
+    throw new Error('Truncated Trojan header.');
+  }
+
+  return { passwordHash, command, hostname, port: readPort(chunk, end), payload: chunk.subarray(end + 4) };
+}
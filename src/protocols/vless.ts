@@ -0,0 +1,104 @@
+import type { AddressKind } from './address';
+import { readAddress, readPort } from './address';
+
+export const VLESS_VERSION = 0;
+
+export type VlessCommand = 'tcp' | 'udp' | 'mux';
+
+export interface VlessRequest {
+  version: number;
+  userId: string;
+  command: VlessCommand;
+  /** Destination host; IPv6 literals are bracketed so they can be dialed as-is. Empty for `mux`. */
+  hostname: string;
+  /** Destination port; 0 for `mux`, whose streams carry their own addresses. */
+  port: number;
+  /** Client data that followed the header in the same frame. */
+  payload: Uint8Array;
+}
+
+const UUID_BYTES = 16;
+const COMMANDS: Record<number, VlessCommand> = { 1: 'tcp', 2: 'udp', 3: 'mux' };
+const ADDRESS_KINDS: Record<number, AddressKind> = { 1: 'ipv4', 2: 'domain', 3: 'ipv6' };
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function normalizeUuid(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  return UUID_PATTERN.test(normalized) ? normalized : null;
+}
+
+export function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  const bytes = new Uint8Array(UUID_BYTES);
+
+  for (let i = 0; i < UUID_BYTES; i += 1) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return bytes;
+}
+
+/** Reads the user UUID from the first client frame (`version(1) | uuid(16) | ...`). */
+export function readVlessUserId(chunk: Uint8Array): string | null {
+  if (chunk.byteLength < 1 + UUID_BYTES || chunk[0] !== VLESS_VERSION) {
+    return null;
+  }
+
+  return formatUuid(chunk.subarray(1, 1 + UUID_BYTES));
+}
+
+/**
+ * Parses the VLESS request header:
+ * `version(1) | uuid(16) | addonsLength(1) | addons | command(1) | port(2) | addressType(1) | address`.
+ * A `mux` header ends after the command. Throws when the header is truncated or malformed.
+ */
+export function parseVlessRequest(chunk: Uint8Array): VlessRequest {
+  const userId = readVlessUserId(chunk);
+
+  if (!userId) {
+    throw new Error('Malformed VLESS header.');
+  }
+
+  const addonsLength = chunk[1 + UUID_BYTES] ?? 0;
+  const commandOffset = 2 + UUID_BYTES + addonsLength;
+
+  if (chunk.byteLength < commandOffset + 1) {
+    throw new Error('Truncated VLESS header.');
+  }
+
+  const command = COMMANDS[chunk[commandOffset] as number];
+
+  if (!command) {
+    throw new Error(`Unsupported VLESS command ${String(chunk[commandOffset])}.`);
+  }
+
+  if (command === 'mux') {
+    const payload = chunk.subarray(commandOffset + 1);
+    return { version: VLESS_VERSION, userId, command, hostname: '', port: 0, payload };
+  }
+
+  if (chunk.byteLength < commandOffset + 4) {
+    throw new Error('Truncated VLESS header.');
+  }
+
+  const addressKind = ADDRESS_KINDS[chunk[commandOffset + 3] as number];
+
+  if (!addressKind) {
+    throw new Error(`Unsupported VLESS address type ${String(chunk[commandOffset + 3])}.`);
+  }
+
+  const port = readPort(chunk, commandOffset + 1);
+  const { hostname, end } = readAddress(chunk, commandOffset + 4, addressKind);
+
+  return { version: VLESS_VERSION, userId, command, hostname, port, payload: chunk.subarray(end) };
+}
+
+/** Response header sent ahead of the first downstream bytes: `version(1) | addonsLength(1)`. */
+export function buildVlessResponseHeader(version: number): Uint8Array {
+  return new Uint8Array([version, 0]);
+}
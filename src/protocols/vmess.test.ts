@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { uuidToBytes } from './vless';
+import {
+  decryptAuthId,
+  deriveCmdKey,
+  importAuthIdKey,
+  readAuthIdTimestamp,
+  vmessKdf,
+} from './vmess';
+
+const USER_ID = '0d1c2b3a-4e5f-6071-8293-a4b5c6d7e8f9';
+const KEY = new Uint8Array(Array.from({ length: 16 }, (_, index) => index));
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+}
+
+/** AES-128-ECB encryption of one block, the way a client seals its authID. */
+async function encryptBlock(key: CryptoKey, block: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: new Uint8Array(16) },
+    key,
+    block,
+  );
+
+  return new Uint8Array(sealed).subarray(0, 16);
+}
+
+describe('vmessKdf', () => {
+  it('is HMAC-SHA256 keyed with the VMess salt when the path is empty', async () => {
+    const saltKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('VMess AEAD KDF'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const expected = new Uint8Array(await crypto.subtle.sign('HMAC', saltKey, KEY));
+
+    expect(toHex(await vmessKdf(KEY))).toBe(toHex(expected));
+  });
+
+  it('nests one HMAC layer per path element', async () => {
+    expect(toHex(await vmessKdf(KEY, 'AES Auth ID Encryption'))).toBe(
+      '9fa4289c41650861a45b34aeab3879fe4785dce57ab3f68cfb0cc60fca69460a',
+    );
+    expect(toHex(await vmessKdf(KEY, 'VMess Header AEAD Key_Length', 'abc'))).toBe(
+      '32a981fcd2b438326a60d1384636de78443a0850e00b44bf79a3950554b217bc',
+    );
+  });
+});
+
+describe('deriveCmdKey', () => {
+  it('hashes the UUID bytes with the fixed VMess salt', async () => {
+    expect(toHex(await deriveCmdKey(uuidToBytes(USER_ID)))).toBe(
+      'b0732857b44f95ccc41dd6015ddc6673',
+    );
+  });
+});
+
+describe('authID decryption', () => {
+  const plaintext = fromHex('000000006553f10001020304b85575f7');
+
+  it('recovers the sealed timestamp when the checksum holds', async () => {
+    const key = await importAuthIdKey(await deriveCmdKey(uuidToBytes(USER_ID)));
+    const authId = await encryptBlock(key, plaintext);
+
+    expect(toHex(await decryptAuthId(key, authId))).toBe(toHex(plaintext));
+    expect(readAuthIdTimestamp(plaintext)).toBe(1_700_000_000);
+  });
+
+  it('refuses a block whose checksum does not match', () => {
+    const tampered = new Uint8Array(plaintext);
+    tampered[11] = 0xff;
+
+    expect(readAuthIdTimestamp(tampered)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { concatBytes } from '../utils/bytes';
+
+const KDF_SALT = 'VMess AEAD KDF';
+const AUTH_ID_KDF_PATH = 'AES Auth ID Encryption';
+const CMD_KEY_SALT = 'c48619fe-8f02-49e0-b9e9-edf763e17e21';
+const HMAC_BLOCK_BYTES = 64;
+const AES_BLOCK_BYTES = 16;
+
+export const VMESS_AUTH_ID_BYTES = 16;
+/** authID(16) + encrypted length(2 + 16 tag) + nonce(8): the shortest prefix of a VMess AEAD header. */
+export const VMESS_MIN_HEADER_BYTES = 42;
+
+type Bytes = Uint8Array<ArrayBuffer>;
+type HashFunction = (data: Bytes) => Promise<Bytes>;
+
+const textEncoder = new TextEncoder();
+
+async function sha256(data: Bytes): Promise<Bytes> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+// HMAC over an arbitrary hash, needed because the VMess KDF nests HMACs as the inner hash function.
+function hmacWith(hash: HashFunction, key: Uint8Array): HashFunction {
+  const blockKey = new Uint8Array(HMAC_BLOCK_BYTES);
+  blockKey.set(key.subarray(0, HMAC_BLOCK_BYTES));
+  const innerPad = blockKey.map((byte) => byte ^ 0x36);
+  const outerPad = blockKey.map((byte) => byte ^ 0x5c);
+
+  return async (data) => hash(concatBytes(outerPad, await hash(concatBytes(innerPad, data))));
+}
+
+/** VMess AEAD KDF: HMAC-SHA256 keyed with the salt, wrapped in one HMAC layer per path element. */
+export async function vmessKdf(key: Bytes, ...path: string[]): Promise<Bytes> {
+  let hash = hmacWith(sha256, textEncoder.encode(KDF_SALT));
+
+  for (const element of path) {
+    hash = hmacWith(hash, textEncoder.encode(element));
+  }
+
+  return hash(key);
+}
+
+/** cmdKey = MD5(uuid bytes || fixed salt), as in Xray's protocol.NewID. */
+export async function deriveCmdKey(uuidBytes: Uint8Array): Promise<Bytes> {
+  return new Uint8Array(await crypto.subtle.digest('MD5', concatBytes(uuidBytes, textEncoder.encode(CMD_KEY_SALT))));
+}
+
+export async function importAuthIdKey(cmdKey: Bytes): Promise<CryptoKey> {
+  const keyBytes = (await vmessKdf(cmdKey, AUTH_ID_KDF_PATH)).subarray(0, 16);
+  return crypto.subtle.importKey('raw', keyBytes, 'AES-CBC', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * AES-128-ECB decryption of one block with WebCrypto, which only offers CBC. Appending a block that
+ * decrypts to full PKCS#7 padding lets AES-CBC with a zero IV return exactly D(block).
+ */
+export async function decryptAuthId(key: CryptoKey, authId: Uint8Array): Promise<Uint8Array> {
+  const block = new Uint8Array(authId.subarray(0, AES_BLOCK_BYTES));
+  const padding = new Uint8Array(AES_BLOCK_BYTES).fill(AES_BLOCK_BYTES);
+  const paddingBlock = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-CBC', iv: block }, key, padding),
+  ).subarray(0, AES_BLOCK_BYTES);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: new Uint8Array(AES_BLOCK_BYTES) },
+    key,
+    concatBytes(block, paddingBlock),
+  );
+
+  return new Uint8Array(plaintext);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+
+      for (let k = 0; k < 8; k += 1) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Decrypted authID layout: timestamp(8, big-endian seconds) | random(4) | crc32(first 12 bytes).
+ * Returns the timestamp when the checksum holds, otherwise null.
+ */
+export function readAuthIdTimestamp(decrypted: Uint8Array): number | null {
+  const view = new DataView(decrypted.buffer, decrypted.byteOffset, decrypted.byteLength);
+
+  if (view.getUint32(12) !== crc32(decrypted.subarray(0, 12))) {
+    return null;
+  }
+
+  return Number(view.getBigInt64(0));
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CompiledRoute } from './routes';
+import { applyRouteEnv, compileHostPattern, matchRoute, parseRoutes } from './routes';
+import type { Env } from './types';
+
+function match(routes: CompiledRoute[], url: string, headers: Record<string, string> = {}) {
+  const result = matchRoute(routes, new Request(url, { headers }), new URL(url));
+  return result ? { name: result.route.name, forwardedPath: result.forwardedPath } : null;
+}
+
+describe('compileHostPattern', () => {
+  it('matches wildcard subdomains but not the bare domain', () => {
+    const pattern = compileHostPattern('*.Example.com');
+
+    expect(
+      ['a.example.com', 'a.b.example.com', 'example.com', 'aexample.com'].map((host) =>
+        pattern.test(host),
+      ),
+    ).toEqual([true, true, false, false]);
+  });
+});
+
+describe('parseRoutes', () => {
+  it('names unnamed rules by position', () => {
+    expect(parseRoutes('[{}, {"name": "edge"}]').map((route) => route.name)).toEqual([
+      'route-0',
+      'edge',
+    ]);
+  });
+
+  it('rejects invalid rules', () => {
+    expect(() => parseRoutes('{}')).toThrow('JSON array');
+    expect(() => parseRoutes('[{"transport": "tcp"}]')).toThrow('unsupported transport "tcp"');
+    expect(() => parseRoutes('[{"match": {"pathPrefix": "vless"}}]')).toThrow(
+      'must start with "/"',
+    );
+    expect(() => parseRoutes('[{"match": {"pathRegex": "("}}]')).toThrow(
+      'not a valid regular expression',
+    );
+    expect(() => parseRoutes('[{"options": {"DEBUG": true}}]')).toThrow(
+      'option DEBUG must be a string',
+    );
+    expect(() => parseRoutes('[{"options": {"BACKEND_URL": "x"}}]')).toThrow(
+      'unsupported option "BACKEND_URL"',
+    );
+  });
+});
+
+describe('matchRoute', () => {
+  it('returns the first rule whose conditions all hold', () => {
+    const routes = parseRoutes(
+      JSON.stringify([
+        { name: 'beta', match: { host: 'beta.example.com', pathPrefix: '/ws' } },
+        { name: 'ws', match: { pathPrefix: '/ws/' } },
+        { name: 'fallback' },
+      ]),
+    );
+
+    expect(match(routes, 'https://beta.example.com/ws/a')).toEqual({
+      name: 'beta',
+      forwardedPath: '/ws/a',
+    });
+    expect(match(routes, 'https://www.example.com/ws')).toEqual({
+      name: 'ws',
+      forwardedPath: '/ws',
+    });
+    expect(match(routes, 'https://www.example.com/wss')).toEqual({
+      name: 'fallback',
+      forwardedPath: '/wss',
+    });
+  });
+
+  it('matches path prefixes on segment boundaries only', () => {
+    const routes = parseRoutes('[{"name": "vless", "match": {"pathPrefix": "/vless"}}]');
+
+    expect(match(routes, 'https://example.com/vless')).not.toBeNull();
+    expect(match(routes, 'https://example.com/vless/x')).not.toBeNull();
+    expect(match(routes, 'https://example.com/vlessx')).toBeNull();
+  });
+
+  it('checks exact header values and `*` for presence', () => {
+    const routes = parseRoutes(
+      JSON.stringify([{ name: 'tagged', match: { headers: { 'X-Tenant': 'a', 'X-Key': '*' } } }]),
+    );
+
+    expect(
+      match(routes, 'https://example.com/', { 'x-tenant': 'a', 'x-key': 'anything' }),
+    ).not.toBeNull();
+    expect(
+      match(routes, 'https://example.com/', { 'x-tenant': 'b', 'x-key': 'anything' }),
+    ).toBeNull();
+    expect(match(routes, 'https://example.com/', { 'x-tenant': 'a' })).toBeNull();
+  });
+
+  it('rewrites the matched prefix and keeps the remainder', () => {
+    const routes = parseRoutes(
+      JSON.stringify([
+        { name: 'strip', match: { pathPrefix: '/tenant-a/' }, rewrite: '/' },
+        { name: 'move', match: { pathPrefix: '/old' }, rewrite: '/new/' },
+      ]),
+    );
+
+    expect(match(routes, 'https://example.com/tenant-a/ws')).toEqual({
+      name: 'strip',
+      forwardedPath: '/ws',
+    });
+    expect(match(routes, 'https://example.com/tenant-a')).toEqual({
+      name: 'strip',
+      forwardedPath: '/',
+    });
+    expect(match(routes, 'https://example.com/old/x/y')).toEqual({
+      name: 'move',
+      forwardedPath: '/new/x/y',
+    });
+  });
+
+  it('rewrites with regex replacements', () => {
+    const routes = parseRoutes(
+      JSON.stringify([
+        { name: 'user', match: { pathRegex: '^/u/([a-z]+)$' }, rewrite: '/users/$1/ws' },
+      ]),
+    );
+
+    expect(match(routes, 'https://example.com/u/alice')).toEqual({
+      name: 'user',
+      forwardedPath: '/users/alice/ws',
+    });
+    expect(match(routes, 'https://example.com/u/Alice')).toBeNull();
+  });
+});
+
+describe('applyRouteEnv', () => {
+  it('scopes the backend, strategy, protocol and options of the route over the env', () => {
+    const [route] = parseRoutes(
+      JSON.stringify([
+        {
+          name: 'tenant',
+          backend: ['https://a.example.com', 'https://b.example.com|2'],
+          strategy: 'hash-ip',
+          protocol: 'trojan',
+          options: { DEBUG: 'true' },
+        },
+      ]),
+    ) as [CompiledRoute];
+
+    expect(
+      applyRouteEnv({ BACKEND_URLS: 'https://default.example.com', DEBUG: 'false' } as Env, route),
+    ).toMatchObject({
+      BACKEND_URLS: 'https://a.example.com,https://b.example.com|2',
+      BACKEND_STRATEGY: 'hash-ip',
+      PROTOCOL: 'trojan',
+      DEBUG: 'true',
+      ROUTE_NAME: 'tenant',
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import type { CompiledAccessPolicy } from './access-policy';
+import { compileAccessPolicy } from './access-policy';
+import { ROUTE_OPTION_KEYS, ROUTES_CACHE_TTL_MS } from './config';
+import type { Env, RouteOptionKey, RouteRule } from './types';
+import { isProxyProtocol, isTransportType } from './utils/env';
+
+export interface CompiledRoute {
+  rule: RouteRule;
+  name: string;
+  hostPattern: RegExp | null;
+  pathPrefix: string | null;
+  pathRegex: RegExp | null;
+  headers: [string, string][];
+  access: CompiledAccessPolicy | null;
+}
+
+export interface RouteMatch {
+  route: CompiledRoute;
+  /** Inbound path after the route's rewrite, forwarded to the backend. */
+  forwardedPath: string;
+}
+
+const ROUTES_KV_KEY = 'routes';
+
+let cachedSource: string | null = null;
+let cachedRoutes: CompiledRoute[] = [];
+let kvLoadedAt = 0;
+
+function isRouteOptionKey(value: string): value is RouteOptionKey {
+  return (ROUTE_OPTION_KEYS as readonly string[]).includes(value);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** `*.example.com` matches any subdomain; other hosts match exactly (case-insensitive). */
+export function compileHostPattern(host: string): RegExp {
+  const pattern = escapeRegExp(host.toLowerCase()).replace(/^\\\*\\\./, '(?:[^.]+\\.)+');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Options are spread over the env, whose variables are always strings, so a JSON `true` or `3000` would
+ * silently fail the `=== 'true'` checks or break integer parsing. `owner` names the rule in errors.
+ */
+export function validateRouteOptions(options: RouteRule['options'], owner: string): void {
+  for (const [key, value] of Object.entries(options ?? {})) {
+    if (!isRouteOptionKey(key)) {
+      throw new Error(`${owner} has unsupported option "${key}".`);
+    }
+
+    if (typeof value !== 'string') {
+      throw new Error(`${owner} option ${key} must be a string, e.g. "${String(value)}".`);
+    }
+  }
+}
+
+function compileRoute(rule: RouteRule, index: number): CompiledRoute {
+  const name = rule.name ?? `route-${index}`;
+  const match = rule.match ?? {};
+
+  if (rule.transport !== undefined && !isTransportType(rule.transport)) {
+    throw new Error(`Route ${name} has unsupported transport "${String(rule.transport)}".`);
+  }
+
+  if (rule.protocol !== undefined && !isProxyProtocol(rule.protocol)) {
+    throw new Error(`Route ${name} has unsupported protocol "${String(rule.protocol)}".`);
+  }
+
+  if (match.pathPrefix !== undefined && !match.pathPrefix.startsWith('/')) {
+    throw new Error(`Route ${name} pathPrefix must start with "/".`);
+  }
+
+  validateRouteOptions(rule.options, `Route ${name}`);
+
+  let pathRegex: RegExp | null = null;
+
+  if (match.pathRegex !== undefined) {
+    try {
+      pathRegex = new RegExp(match.pathRegex);
+    } catch {
+      throw new Error(`Route ${name} pathRegex is not a valid regular expression.`);
+    }
+  }
+
+  return {
+    rule,
+    name,
+    hostPattern: match.host ? compileHostPattern(match.host) : null,
+    pathPrefix: match.pathPrefix ? match.pathPrefix.replace(/\/+$/, '') : null,
+    pathRegex,
+    headers: Object.entries(match.headers ?? {}).map(([header, value]) => [header.toLowerCase(), value]),
+    access: rule.access ? compileAccessPolicy(rule.access, `Route ${name}`) : null,
+  };
+}
+
+export function parseRoutes(source: string): CompiledRoute[] {
+  const parsed: unknown = JSON.parse(source);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Routing table must be a JSON array of rules.');
+  }
+
+  return (parsed as RouteRule[]).map((rule, index) => compileRoute(rule, index));
+}
+
+/**
+ * Loads the routing table from the ROUTES variable or, when unset, the `routes` key of the ROUTES_KV
+ * namespace. Parsed tables are cached per isolate; KV is re-read at most once per cache TTL.
+ */
+export async function loadRoutes(env: Env): Promise<CompiledRoute[]> {
+  let source = (env.ROUTES ?? '').trim();
+
+  if (!source && env.ROUTES_KV) {
+    if (cachedSource !== null && Date.now() - kvLoadedAt < ROUTES_CACHE_TTL_MS) {
+      return cachedRoutes;
+    }
+
+    source = ((await env.ROUTES_KV.get(ROUTES_KV_KEY)) ?? '').trim();
+    kvLoadedAt = Date.now();
+  }
+
+  if (source === cachedSource) {
+    return cachedRoutes;
+  }
+
+  const routes = source ? parseRoutes(source) : [];
+  cachedSource = source;
+  cachedRoutes = routes;
+  return routes;
+}
+
+function matchPathPrefix(pathname: string, prefix: string): string | null {
+  if (prefix === '') {
+    return pathname;
+  }
+
+  if (pathname === prefix) {
+    return '';
+  }
+
+  if (pathname.startsWith(`${prefix}/`)) {
+    return pathname.slice(prefix.length);
+  }
+
+  return null;
+}
+
+function joinPath(prefix: string, remainder: string): string {
+  const joined = `${prefix.replace(/\/+$/, '')}${remainder}`;
+  return joined.startsWith('/') ? joined : `/${joined}`;
+}
+
+/** First matching rule wins. All configured conditions of a rule must hold. */
+export function matchRoute(routes: readonly CompiledRoute[], request: Request, url: URL): RouteMatch | null {
+  const hostname = url.hostname.toLowerCase();
+
+  for (const route of routes) {
+    if (route.hostPattern && !route.hostPattern.test(hostname)) {
+      continue;
+    }
+
+    const remainder = route.pathPrefix === null ? url.pathname : matchPathPrefix(url.pathname, route.pathPrefix);
+
+    if (remainder === null) {
+      continue;
+    }
+
+    if (route.pathRegex && !route.pathRegex.test(url.pathname)) {
+      continue;
+    }
+
+    const headersMatch = route.headers.every(([header, expected]) => {
+      const actual = request.headers.get(header);
+      return expected === '*' ? actual !== null : actual === expected;
+    });
+
+    if (!headersMatch) {
+      continue;
+    }
+
+    const rewrite = route.rule.rewrite;
+    let forwardedPath = url.pathname;
+
+    if (rewrite !== undefined) {
+      if (route.pathRegex) {
+        forwardedPath = url.pathname.replace(route.pathRegex, rewrite) || '/';
+      } else if (route.pathPrefix !== null) {
+        forwardedPath = joinPath(rewrite, remainder);
+      }
+    }
+
+    return { route, forwardedPath };
+  }
+
+  return null;
+}
+
+/** Route-scoped configuration: backend list, strategy, protocol and per-route options override the Worker env. */
+export function applyRouteEnv(env: Env, route: CompiledRoute): Env {
+  const { rule } = route;
+  const scoped: Env = { ...env, ...rule.options, ROUTE_NAME: route.name };
+
+  if (rule.backend !== undefined) {
+    scoped.BACKEND_URLS = Array.isArray(rule.backend) ? rule.backend.join(',') : rule.backend;
+  }
+
+  if (rule.strategy !== undefined) {
+    scoped.BACKEND_STRATEGY = rule.strategy;
+  }
+
+  if (rule.protocol !== undefined) {
+    scoped.PROTOCOL = rule.protocol;
+  }
+
+  return scoped;
+}
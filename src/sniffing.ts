@@ -0,0 +1,100 @@
+import { identifyVmessUser } from './auth/vmess';
+import { readTrojanPasswordHash } from './protocols/trojan';
+import { parseVlessRequest } from './protocols/vless';
+import type { BackendTarget, Env, ProtocolBackends, ProxyProtocol } from './types';
+import { selectBackend } from './utils/backends';
+import { isProxyProtocol } from './utils/env';
+
+export interface FrameBackend {
+  backend: BackendTarget;
+  env: Env;
+  protocol: ProxyProtocol | null;
+}
+
+const parsedProtocolBackends = new Map<string, Map<ProxyProtocol, string>>();
+
+export function parseProtocolBackends(source: string): Map<ProxyProtocol, string> {
+  const cached = parsedProtocolBackends.get(source);
+
+  if (cached) {
+    return cached;
+  }
+
+  const parsed: unknown = JSON.parse(source);
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('PROTOCOL_BACKENDS must be a JSON object keyed by protocol.');
+  }
+
+  const backends = new Map<ProxyProtocol, string>();
+
+  for (const [protocol, backend] of Object.entries(parsed as ProtocolBackends)) {
+    if (!isProxyProtocol(protocol)) {
+      throw new Error(`PROTOCOL_BACKENDS has unsupported protocol "${protocol}".`);
+    }
+
+    backends.set(protocol, Array.isArray(backend) ? backend.join(',') : String(backend));
+  }
+
+  parsedProtocolBackends.set(source, backends);
+  return backends;
+}
+
+export function isProtocolSniffingEnabled(env: Env): boolean {
+  return (env.PROTOCOL_BACKENDS ?? '').trim() !== '';
+}
+
+/**
+ * Classifies the first client frame. VLESS and Trojan have plaintext headers; VMess AEAD is only
+ * recognised when the authID decrypts with a VMESS_UUIDS key. Everything else counts as Shadowsocks,
+ * whose stream is indistinguishable from random bytes.
+ */
+export async function sniffProtocol(env: Env, firstFrame: Uint8Array): Promise<ProxyProtocol> {
+  if (readTrojanPasswordHash(firstFrame)) {
+    return 'trojan';
+  }
+
+  try {
+    parseVlessRequest(firstFrame);
+    return 'vless';
+  } catch {
+    // Not a VLESS header; keep classifying.
+  }
+
+  if (await identifyVmessUser(env, firstFrame)) {
+    return 'vmess';
+  }
+
+  return 'shadowsocks';
+}
+
+/**
+ * Picks the backend for an inspected connection. With PROTOCOL_BACKENDS set, the backend list of the
+ * declared (PROTOCOL) or sniffed protocol replaces BACKEND_URLS; protocols without an entry keep the
+ * already selected backend.
+ */
+export async function resolveFrameBackend(
+  request: Request,
+  env: Env,
+  inbound: URL,
+  firstFrame: Uint8Array,
+  selected: BackendTarget,
+): Promise<FrameBackend> {
+  if (!isProtocolSniffingEnabled(env)) {
+    return { backend: selected, env, protocol: null };
+  }
+
+  const protocol = env.PROTOCOL ?? (await sniffProtocol(env, firstFrame));
+  const backends = parseProtocolBackends((env.PROTOCOL_BACKENDS ?? '').trim()).get(protocol);
+
+  if (env.DEBUG === 'true') {
+    console.log('[sniffing]', 'classified first frame', { protocol, backend: backends ?? selected.key });
+  }
+
+  if (backends === undefined) {
+    return { backend: selected, env, protocol };
+  }
+
+  const protocolEnv: Env = { ...env, BACKEND_URLS: backends };
+  return { backend: selectBackend(request, protocolEnv, inbound), env: protocolEnv, protocol };
+}
@@ -0,0 +1,56 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { BackendOutcome, BackendProbeRecord, CircuitRecord, Env } from '../types';
+import { applyCircuitOutcome, applyProbeOutcome, getCircuitSettings } from '../utils/circuit-breaker';
+
+const CIRCUIT_KEY_PREFIX = 'circuit:';
+const PROBE_KEY_PREFIX = 'probe:';
+
+/**
+ * Single shared store for per-backend circuit state. Every isolate reports upgrade failures here and
+ * periodically pulls a snapshot, so all edge locations agree on which backends are down.
+ */
+export class BackendHealth extends DurableObject<Env> {
+  async report(key: string, outcome: BackendOutcome, at: number): Promise<CircuitRecord> {
+    const storageKey = `${CIRCUIT_KEY_PREFIX}${key}`;
+    const current = await this.ctx.storage.get<CircuitRecord>(storageKey);
+    const next = applyCircuitOutcome(current, outcome, at, getCircuitSettings(this.env));
+
+    await this.ctx.storage.put(storageKey, next);
+    return next;
+  }
+
+  /** Stores the latest scheduled probe results and folds the verdict into the backend's circuit. */
+  async recordProbe(key: string, probe: BackendProbeRecord): Promise<CircuitRecord> {
+    const storageKey = `${CIRCUIT_KEY_PREFIX}${key}`;
+    const current = await this.ctx.storage.get<CircuitRecord>(storageKey);
+    const next = applyProbeOutcome(current, probe.healthy, probe.checkedAt, getCircuitSettings(this.env));
+
+    await this.ctx.storage.put<CircuitRecord | BackendProbeRecord>({
+      [storageKey]: next,
+      [`${PROBE_KEY_PREFIX}${key}`]: probe,
+    });
+    return next;
+  }
+
+  async probes(): Promise<Record<string, BackendProbeRecord>> {
+    const entries = await this.ctx.storage.list<BackendProbeRecord>({ prefix: PROBE_KEY_PREFIX });
+    const probes: Record<string, BackendProbeRecord> = {};
+
+    for (const [storageKey, probe] of entries) {
+      probes[storageKey.slice(PROBE_KEY_PREFIX.length)] = probe;
+    }
+
+    return probes;
+  }
+
+  async snapshot(): Promise<Record<string, CircuitRecord>> {
+    const entries = await this.ctx.storage.list<CircuitRecord>({ prefix: CIRCUIT_KEY_PREFIX });
+    const snapshot: Record<string, CircuitRecord> = {};
+
+    for (const [storageKey, record] of entries) {
+      snapshot[storageKey.slice(CIRCUIT_KEY_PREFIX.length)] = record;
+    }
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,43 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { ClientLimitRecord, Env } from '../types';
+import type { RateLimitDecision, RateLimitSettings } from '../utils/rate-limit';
+import { applyAdmission, releaseLease, renewLease } from '../utils/rate-limit';
+
+const RECORD_KEY = 'limits';
+
+/**
+ * Upgrade and connection counters of one rate-limit key (client IP, user or route). Every isolate
+ * admits upgrades through the key's object, so the limits hold across edge locations.
+ */
+export class ClientLimits extends DurableObject<Env> {
+  async acquire(
+    settings: RateLimitSettings,
+    leaseId: string | null,
+    now: number,
+  ): Promise<RateLimitDecision> {
+    const current = await this.ctx.storage.get<ClientLimitRecord>(RECORD_KEY);
+    const { record, decision } = applyAdmission(current, settings, leaseId, now);
+
+    await this.ctx.storage.put(RECORD_KEY, record);
+    return decision;
+  }
+
+  async renew(leaseId: string, now: number): Promise<void> {
+    await this.update((record) => renewLease(record, leaseId, now));
+  }
+
+  async release(leaseId: string): Promise<void> {
+    await this.update((record) => releaseLease(record, leaseId));
+  }
+
+  private async update(
+    change: (record: ClientLimitRecord | undefined) => ClientLimitRecord | undefined,
+  ): Promise<void> {
+    const current = await this.ctx.storage.get<ClientLimitRecord>(RECORD_KEY);
+    const next = change(current);
+
+    if (next && next !== current) {
+      await this.ctx.storage.put(RECORD_KEY, next);
+    }
+  }
+}
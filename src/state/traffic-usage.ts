@@ -0,0 +1,70 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env, TrafficCounters } from '../types';
+import type { TrafficQuotas, TrafficStatus } from '../utils/traffic';
+import { addTraffic, EMPTY_TRAFFIC, getTrafficStatus, trafficWindowKeys } from '../utils/traffic';
+
+const DAY_MS = 86_400_000;
+const DAY_RETENTION = 35;
+const MONTH_RETENTION = 13;
+
+/**
+ * Traffic totals of one user (or route) in UTC daily and monthly windows. Relays report their bytes here
+ * from every isolate, so quotas see the user's traffic across all edge locations.
+ */
+export class TrafficUsage extends DurableObject<Env> {
+  async record(
+    upload: number,
+    download: number,
+    quotas: TrafficQuotas,
+    now: number,
+  ): Promise<TrafficStatus> {
+    const keys = trafficWindowKeys(now);
+    const stored = await this.ctx.storage.get<TrafficCounters>([keys.day, keys.month]);
+    const day = addTraffic(stored.get(keys.day), upload, download);
+    const month = addTraffic(stored.get(keys.month), upload, download);
+
+    await this.ctx.storage.put({ [keys.day]: day, [keys.month]: month });
+
+    // A new day is the point where old windows fall out of retention.
+    if (!stored.has(keys.day)) {
+      await this.pruneWindows(now);
+    }
+
+    return getTrafficStatus(day, month, quotas, now);
+  }
+
+  async status(quotas: TrafficQuotas, now: number): Promise<TrafficStatus> {
+    const keys = trafficWindowKeys(now);
+    const stored = await this.ctx.storage.get<TrafficCounters>([keys.day, keys.month]);
+
+    return getTrafficStatus(
+      stored.get(keys.day) ?? EMPTY_TRAFFIC,
+      stored.get(keys.month) ?? EMPTY_TRAFFIC,
+      quotas,
+      now,
+    );
+  }
+
+  /** Totals by window key (`day:YYYY-MM-DD`, `month:YYYY-MM`), for billing exports. */
+  async usage(): Promise<Record<string, TrafficCounters>> {
+    const entries = await this.ctx.storage.list<TrafficCounters>();
+    return Object.fromEntries(entries);
+  }
+
+  private async pruneWindows(now: number): Promise<void> {
+    const date = new Date(now);
+    const oldestDay = trafficWindowKeys(now - DAY_RETENTION * DAY_MS).day;
+    const oldestMonth = trafficWindowKeys(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - MONTH_RETENTION + 1, 1),
+    ).month;
+    const [days, months] = await Promise.all([
+      this.ctx.storage.list({ prefix: 'day:', end: oldestDay }),
+      this.ctx.storage.list({ prefix: 'month:', end: oldestMonth }),
+    ]);
+    const stale = [...days.keys(), ...months.keys()];
+
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(stale);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env, XhttpSessionRecord } from '../types';
+import type { SessionWaiter } from '../utils/xhttp-sessions';
+import { touchSessionRecord, waitForSessionRecord } from '../utils/xhttp-sessions';
+
+const RECORD_KEY = 'session';
+
+/**
+ * Open state of one native XHTTP session. The upload that opens the session records its user here, and
+ * the download and later packets of the session, from any isolate, wait here until it has been opened.
+ */
+export class XhttpSessions extends DurableObject<Env> {
+  private readonly waiters = new Set<SessionWaiter>();
+
+  async open(record: XhttpSessionRecord): Promise<void> {
+    await this.ctx.storage.put(RECORD_KEY, record);
+    await this.ctx.storage.setAlarm(record.expiresAt);
+
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    waiters.forEach((waiter) => {
+      waiter(record);
+    });
+  }
+
+  async lookup(waitMs: number, now: number): Promise<XhttpSessionRecord | null> {
+    const stored = await this.ctx.storage.get<XhttpSessionRecord>(RECORD_KEY);
+
+    if (stored && stored.expiresAt > now) {
+      const record = touchSessionRecord(stored, now);
+
+      if (record !== stored) {
+        await this.ctx.storage.put(RECORD_KEY, record);
+      }
+
+      return record;
+    }
+
+    return waitMs > 0 ? waitForSessionRecord(this.waiters, waitMs) : null;
+  }
+
+  override async alarm(): Promise<void> {
+    const stored = await this.ctx.storage.get<XhttpSessionRecord>(RECORD_KEY);
+
+    if (!stored) {
+      return;
+    }
+
+    // Lookups push the expiry out without moving the alarm, so a live session reschedules it here.
+    if (stored.expiresAt > Date.now()) {
+      await this.ctx.storage.setAlarm(stored.expiresAt);
+      return;
+    }
+
+    await this.ctx.storage.deleteAll();
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Env } from '../types';
+import { handleUpgrade } from './grpc';
+
+const USER_ID = '0d1c2b3a-4e5f-6071-8293-a4b5c6d7e8f9';
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+function buildVlessFrame(userId: string): number[] {
+  const uuid = userId
+    .replace(/-/g, '')
+    .match(/../g)
+    ?.map((byte) => parseInt(byte, 16));
+
+  return [0, ...(uuid ?? []), 0, 1, 0, 80, 2, 11, ...new TextEncoder().encode('example.com')];
+}
+
+/** One Tun message: gRPC prefix, then a Hunk whose data field carries `payload`. */
+function buildGunFrame(payload: number[]): number[] {
+  const message = [0x0a, payload.length, ...payload];
+  return [0, 0, 0, 0, message.length, ...message];
+}
+
+interface TunnelCall {
+  response: Response;
+  backendCalls: number;
+  bodyCancelled: boolean;
+}
+
+async function openTunnel(env: Partial<Env>): Promise<TunnelCall> {
+  let backendCalls = 0;
+  let bodyCancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(buildGunFrame(buildVlessFrame(USER_ID))));
+    },
+    cancel() {
+      bodyCancelled = true;
+    },
+  });
+  const origin = {
+    fetch: () => {
+      backendCalls += 1;
+      return Promise.resolve(new Response('ok'));
+    },
+  };
+  const request = new Request('https://proxy.example.com/tunnel/Tun', {
+    method: 'POST',
+    headers: { 'content-type': 'application/grpc' },
+    body,
+  });
+
+  const response = await handleUpgrade(
+    request,
+    { BACKEND_URLS: 'service:ORIGIN', ORIGIN: origin, ...env } as unknown as Env,
+    ctx,
+  );
+
+  return { response, backendCalls, bodyCancelled };
+}
+
+describe('gRPC tunnel edge checks', () => {
+  it('answers INTERNAL and drops the body when inspection throws', async () => {
+    const call = await openTunnel({
+      VLESS_AUTH: 'true',
+      USERS_KV: {
+        get: () => Promise.reject(new Error('KV unavailable')),
+      } as unknown as KVNamespace,
+    });
+
+    expect(call.response.headers.get('grpc-status')).toBe('13');
+    expect(call.backendCalls).toBe(0);
+    expect(call.bodyCancelled).toBe(true);
+  });
+
+  it('answers INTERNAL and drops the body when the protocol backend cannot be resolved', async () => {
+    const call = await openTunnel({ PROTOCOL_BACKENDS: '["vless"]' });
+
+    expect(call.response.headers.get('grpc-status')).toBe('13');
+    expect(call.backendCalls).toBe(0);
+    expect(call.bodyCancelled).toBe(true);
+  });
+
+  it('forwards an allowed tunnel', async () => {
+    const call = await openTunnel({ VLESS_AUTH: 'true', VLESS_UUIDS: USER_ID });
+
+    expect(call.response.status).toBe(200);
+    expect(call.response.headers.get('grpc-status')).toBeNull();
+    expect(call.backendCalls).toBe(1);
+  });
+});
@@ -0,0 +1,270 @@
+import { isEdgeInboundEnabled } from '../inbound/edge';
+import { inspectFirstFrame, needsFirstFrameInspection, readFrameUserId } from '../inspection';
+import { decodeGunPayload, readGrpcFrameLength } from '../protocols/gun';
+import { resolveFrameBackend } from '../sniffing';
+import type { BackendTarget, Env, InspectionVerdict } from '../types';
+import { getBackendFetch, selectBackend, toBackendUrl } from '../utils/backends';
+import { getBandwidthLimits } from '../utils/bandwidth';
+import type { BufferedBody } from '../utils/body';
+import { readFirstFrame, replayBody } from '../utils/body';
+import { reportBackendOutcome, responseOutcome } from '../utils/circuit-breaker';
+import { parsePositiveInteger } from '../utils/env';
+import {
+  BACKEND_PASSTHROUGH_TIMEOUT_MS,
+  FIRST_FRAME_TIMEOUT_MS,
+  fetchWithTimeout,
+  isAbortError,
+} from '../utils/fetch';
+import { createHttpBodyRelay } from '../utils/http-relay';
+import { limitHttpRequest } from '../utils/rate-limit';
+import { textResponse } from '../utils/response';
+import { buildBackendPassthroughHeaders, toPassthroughInit } from '../utils/socket';
+import { delayHttpRejection } from '../utils/timing';
+
+const GRPC_CONTENT_TYPE = 'application/grpc';
+// Xray serves `/<serviceName>/Tun` and `/<serviceName>/TunMulti`; serviceName may contain slashes.
+const TUNNEL_PATH_PATTERN = /^\/.+\/(?:Tun|TunMulti)$/;
+
+// https://grpc.github.io/grpc/core/md_doc_statuscodes.html
+const GRPC_STATUS_UNIMPLEMENTED = 12;
+const GRPC_STATUS_UNAVAILABLE = 14;
+const GRPC_STATUS_DEADLINE_EXCEEDED = 4;
+const GRPC_STATUS_UNAUTHENTICATED = 16;
+const GRPC_STATUS_INVALID_ARGUMENT = 3;
+const GRPC_STATUS_RESOURCE_EXHAUSTED = 8;
+const GRPC_STATUS_INTERNAL = 13;
+
+function isDebugEnabled(env: Env): boolean {
+  return env.DEBUG === 'true';
+}
+
+function isGrpcRequest(request: Request): boolean {
+  const contentType = (request.headers.get('content-type') ?? '').toLowerCase();
+  return request.method.toUpperCase() === 'POST' && contentType.startsWith(GRPC_CONTENT_TYPE);
+}
+
+/** Trailers-only gRPC error: Workers cannot write HTTP/2 trailers, so the status travels in the headers. */
+function grpcErrorResponse(status: number, message: string): Response {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'content-type': GRPC_CONTENT_TYPE,
+      'grpc-status': String(status),
+      'grpc-message': encodeURIComponent(message),
+    },
+  });
+}
+
+function toGrpcResponse(response: Response, body: ReadableStream<Uint8Array> | null): Response {
+  const headers = new Headers(response.headers);
+  // Ask intermediaries not to buffer the long-lived tunnel body.
+  headers.set('X-Accel-Buffering', 'no');
+  headers.set('Cache-Control', 'no-store');
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+export async function handleUpgrade(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<Response> {
+  const debugEnabled = isDebugEnabled(env);
+  const requestUrl = new URL(request.url);
+  let backend: BackendTarget;
+  let backendUrl: URL;
+
+  try {
+    backend = selectBackend(request, env, requestUrl);
+    backendUrl = toBackendUrl(backend, requestUrl);
+  } catch (error) {
+    return textResponse(500, error instanceof Error ? error.message : 'Invalid backend configuration.');
+  }
+
+  if (!isGrpcRequest(request)) {
+    const passthroughHeaders = buildBackendPassthroughHeaders(request);
+
+    if (debugEnabled) {
+      console.log('[grpc]', 'forwarding non-grpc request', {
+        backendUrl: backendUrl.toString(),
+        method: request.method,
+      });
+    }
+
+    try {
+      const backendResponse = await fetchWithTimeout(
+        backendUrl.toString(),
+        toPassthroughInit(request, passthroughHeaders),
+        BACKEND_PASSTHROUGH_TIMEOUT_MS,
+        getBackendFetch(backend, env),
+      );
+      reportBackendOutcome(env, ctx, backend, responseOutcome(backendResponse.status));
+      return backendResponse;
+    } catch (error) {
+      reportBackendOutcome(env, ctx, backend, 'failure');
+
+      if (isAbortError(error)) {
+        return textResponse(502, 'Backend request timed out.');
+      }
+
+      if (debugEnabled) {
+        console.error('[grpc] backend passthrough error', error);
+      }
+
+      return textResponse(502, 'Unable to connect to backend service.');
+    }
+  }
+
+  if (!TUNNEL_PATH_PATTERN.test(requestUrl.pathname)) {
+    return grpcErrorResponse(GRPC_STATUS_UNIMPLEMENTED, 'Only the Tun and TunMulti methods are proxied.');
+  }
+
+  if (isEdgeInboundEnabled(env)) {
+    return grpcErrorResponse(GRPC_STATUS_UNIMPLEMENTED, 'Edge termination is not available for gRPC.');
+  }
+
+  let target = { backend, env };
+  let body: ReadableStream<Uint8Array> | null = request.body;
+  let userId: string | null = null;
+
+  if (body && needsFirstFrameInspection(env)) {
+    let buffered: BufferedBody;
+    let firstFrame: Uint8Array;
+
+    try {
+      buffered = await readFirstFrame(
+        body,
+        parsePositiveInteger(env.FIRST_FRAME_TIMEOUT_MS, FIRST_FRAME_TIMEOUT_MS),
+        readGrpcFrameLength,
+      );
+    } catch (error) {
+      if (debugEnabled) {
+        console.log('[grpc]', 'first message not readable', { error });
+      }
+
+      return grpcErrorResponse(GRPC_STATUS_INVALID_ARGUMENT, 'Invalid tunnel message.');
+    }
+
+    const cancelBody = (): void => {
+      buffered.reader.cancel().catch(() => {
+        // Ignore cancel errors; the request is being rejected.
+      });
+    };
+
+    try {
+      firstFrame = decodeGunPayload(buffered.frame);
+    } catch (error) {
+      cancelBody();
+
+      if (debugEnabled) {
+        console.log('[grpc]', 'first message not readable', { error });
+      }
+
+      return grpcErrorResponse(GRPC_STATUS_INVALID_ARGUMENT, 'Invalid tunnel message.');
+    }
+
+    let verdict: InspectionVerdict;
+
+    try {
+      verdict = await inspectFirstFrame(env, firstFrame);
+    } catch (error) {
+      cancelBody();
+
+      if (debugEnabled) {
+        console.error('[grpc] first message inspection error', error);
+      }
+
+      return grpcErrorResponse(GRPC_STATUS_INTERNAL, 'Inspection failed.');
+    }
+
+    if (!verdict.allowed) {
+      cancelBody();
+
+      if (debugEnabled) {
+        console.log('[grpc]', 'client rejected before dialing backend', {
+          reason: verdict.reason,
+          behaviour: verdict.behaviour,
+        });
+      }
+
+      await delayHttpRejection(verdict.behaviour);
+      return grpcErrorResponse(GRPC_STATUS_UNAUTHENTICATED, verdict.closeReason ?? 'Unauthorized');
+    }
+
+    try {
+      target = await resolveFrameBackend(request, env, requestUrl, firstFrame, backend);
+    } catch (error) {
+      cancelBody();
+
+      if (debugEnabled) {
+        console.error('[grpc] protocol backend error', error);
+      }
+
+      return grpcErrorResponse(
+        GRPC_STATUS_INTERNAL,
+        error instanceof Error ? error.message : 'Invalid backend configuration.',
+      );
+    }
+
+    body = replayBody(buffered);
+    userId = verdict.userId ?? readFrameUserId(firstFrame);
+  }
+
+  const limiter = await limitHttpRequest(request, env, ctx, userId);
+
+  if (limiter.rejection) {
+    body?.cancel().catch(() => {
+      // Ignore cancel errors; the request is being rejected.
+    });
+
+    if (debugEnabled) {
+      console.log('[grpc]', 'tunnel over client limits', { reason: limiter.rejection.reason });
+    }
+
+    return grpcErrorResponse(GRPC_STATUS_RESOURCE_EXHAUSTED, limiter.rejection.reason);
+  }
+
+  const relay = createHttpBodyRelay(getBandwidthLimits(target.env, userId));
+
+  const headers = buildBackendPassthroughHeaders(request);
+  headers.set('content-type', request.headers.get('content-type') ?? GRPC_CONTENT_TYPE);
+  headers.set('te', 'trailers');
+  const targetUrl = toBackendUrl(target.backend, requestUrl);
+
+  if (debugEnabled) {
+    console.log('[grpc]', 'streaming to backend', {
+      backendUrl: targetUrl.toString(),
+      method: requestUrl.pathname.endsWith('/TunMulti') ? 'TunMulti' : 'Tun',
+    });
+  }
+
+  try {
+    // The tunnel lives as long as both bodies stream, so no deadline applies.
+    const backendResponse = await getBackendFetch(target.backend, target.env)(targetUrl.toString(), {
+      method: 'POST',
+      headers,
+      body: relay.upload(body),
+      redirect: 'manual',
+    });
+    reportBackendOutcome(target.env, ctx, target.backend, responseOutcome(backendResponse.status));
+    const response = toGrpcResponse(backendResponse, relay.download(backendResponse.body));
+    limiter.track(relay);
+    return response;
+  } catch (error) {
+    reportBackendOutcome(target.env, ctx, target.backend, 'failure');
+
+    if (isAbortError(error)) {
+      return grpcErrorResponse(GRPC_STATUS_DEADLINE_EXCEEDED, 'Backend request timed out.');
+    }
+
+    if (debugEnabled) {
+      console.error('[grpc] backend stream error', error);
+    }
+
+    return grpcErrorResponse(GRPC_STATUS_UNAVAILABLE, 'Unable to connect to backend service.');
+  }
+}
@@ -1,31 +1,34 @@
-import type { Env } from '../types';
-import {
-  BACKEND_PASSTHROUGH_TIMEOUT_MS,
-  BACKEND_UPGRADE_TIMEOUT_MS,
-  fetchWithTimeout,
-  isAbortError,
-} from '../utils/fetch';
+import type { BackendTarget, Env } from '../types';
+import { getBackendFetch, selectBackend, toBackendUrl } from '../utils/backends';
+import { reportBackendOutcome, responseOutcome } from '../utils/circuit-breaker';
+import { readEarlyData } from '../utils/early-data';
+import { dialUpgradeWithFailover } from '../utils/failover';
+import { BACKEND_PASSTHROUGH_TIMEOUT_MS, fetchWithTimeout, isAbortError } from '../utils/fetch';
+import { dialRawUpgradeWithFailover } from '../utils/raw-upgrade';
 import { textResponse } from '../utils/response';
-import {
-  bridgeSockets,
-  buildBackendPassthroughHeaders,
-  buildBackendUpgradeHeaders,
-  hasUpgradeRequest,
-  parseBackendUrl,
-  safeClose,
-  toPassthroughInit,
-} from '../utils/socket';
+import { buildBackendPassthroughHeaders, hasUpgradeRequest, toPassthroughInit } from '../utils/socket';
+import { relayUpgrade } from '../utils/upgrade-relay';
 
 function isDebugEnabled(env: Env): boolean {
   return env.DEBUG === 'true';
 }
 
+/** Xray's httpupgrade inbound expects raw bytes after the upgrade, not WebSocket framing. */
+function isRawUpgradeEnabled(env: Env): boolean {
+  return env.HTTPUPGRADE_RAW === 'true';
+}
+
 function validateRequest(request: Request): Response | null {
   void request;
   return null;
 }
 
-export async function handleUpgrade(request: Request, env: Env): Promise<Response> {
+export async function handleUpgrade(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  earlyDataBytes = 0,
+): Promise<Response> {
   const validationError = validateRequest(request);
 
   if (validationError) {
@@ -33,12 +36,14 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
   }
 
   const debugEnabled = isDebugEnabled(env);
-  const requestUrl = new URL(request.url);
   const hasUpgrade = hasUpgradeRequest(request, false);
+  const requestUrl = new URL(request.url);
+  let backend: BackendTarget;
   let backendUrl: URL;
 
   try {
-    backendUrl = parseBackendUrl(request, env, requestUrl);
+    backend = selectBackend(request, env, requestUrl);
+    backendUrl = toBackendUrl(backend, requestUrl);
   } catch (error) {
     return textResponse(500, error instanceof Error ? error.message : 'Invalid backend configuration.');
   }
@@ -54,12 +59,17 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
     }
 
     try {
-      return await fetchWithTimeout(
+      const backendResponse = await fetchWithTimeout(
         backendUrl.toString(),
         toPassthroughInit(request, passthroughHeaders),
         BACKEND_PASSTHROUGH_TIMEOUT_MS,
+        getBackendFetch(backend, env),
       );
+      reportBackendOutcome(env, ctx, backend, responseOutcome(backendResponse.status));
+      return backendResponse;
     } catch (error) {
+      reportBackendOutcome(env, ctx, backend, 'failure');
+
       if (isAbortError(error)) {
         return textResponse(502, 'Backend request timed out.');
       }
@@ -76,62 +86,38 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
     return textResponse(400, 'httpupgrade upgrade requests must use GET.');
   }
 
-  const socketPair = new WebSocketPair();
-  const clientSocket = socketPair[0];
-  const workerSocket = socketPair[1];
-  workerSocket.accept();
-
-  // Keep HTTP upgrade semantics explicit while still using Cloudflare WebSocket API.
-  const backendHeaders = buildBackendUpgradeHeaders(request, request.headers.get('Upgrade') ?? 'websocket');
-
-  if (debugEnabled) {
-    console.log('[httpupgrade]', 'dialing backend', {
-      backendUrl: backendUrl.toString(),
-      upgrade: backendHeaders.get('Upgrade'),
-    });
-  }
-
-  try {
-    const backendResponse = await fetchWithTimeout(
-      backendUrl.toString(),
-      {
-        method: 'GET',
-        headers: backendHeaders,
-        redirect: 'manual',
-      },
-      BACKEND_UPGRADE_TIMEOUT_MS,
-    );
-
-    if (backendResponse.status !== 101 || !backendResponse.webSocket) {
-      await backendResponse.body?.cancel();
-      safeClose(workerSocket, 1011, `Backend upgrade rejected (${backendResponse.status})`);
-      return textResponse(502, `Backend failed to upgrade connection (status ${backendResponse.status}).`);
-    }
-
-    const backendSocket = backendResponse.webSocket;
-    backendSocket.accept();
-
-    bridgeSockets(workerSocket, backendSocket, (direction, error) => {
-      if (debugEnabled) {
-        console.log('[httpupgrade]', 'relay error', { direction, error });
-      }
-    });
-
-    return new Response(null, {
-      status: 101,
-      webSocket: clientSocket,
-    });
-  } catch (error) {
-    safeClose(workerSocket, 1011, 'Unable to connect to backend');
-
-    if (isAbortError(error)) {
-      return textResponse(502, 'Backend upgrade timed out.');
-    }
-
-    if (debugEnabled) {
-      console.error('[httpupgrade] backend connection error', error);
-    }
-
-    return textResponse(502, 'Unable to connect to backend service.');
-  }
+  // Keep HTTP upgrade semantics explicit; raw mode writes the Upgrade request over TCP itself.
+  const upgradeValue = request.headers.get('Upgrade') ?? 'websocket';
+
+  return relayUpgrade({
+    request,
+    env,
+    ctx,
+    logPrefix: '[httpupgrade]',
+    requestUrl,
+    backend,
+    backendUrl,
+    earlyData: readEarlyData(request, earlyDataBytes),
+    upgradeValue,
+    logDetails: { upgrade: upgradeValue, raw: isRawUpgradeEnabled(env) },
+    dial: (target, headers, onAttemptFailure) =>
+      isRawUpgradeEnabled(target.env)
+        ? dialRawUpgradeWithFailover(
+            target.backend,
+            target.env,
+            ctx,
+            requestUrl,
+            headers,
+            upgradeValue,
+            onAttemptFailure,
+          )
+        : dialUpgradeWithFailover(
+            target.backend,
+            target.env,
+            ctx,
+            requestUrl,
+            { method: 'GET', headers, redirect: 'manual' },
+            onAttemptFailure,
+          ),
+  });
 }
@@ -1,20 +1,11 @@
-import type { Env } from '../types';
-import {
-  BACKEND_PASSTHROUGH_TIMEOUT_MS,
-  BACKEND_UPGRADE_TIMEOUT_MS,
-  fetchWithTimeout,
-  isAbortError,
-} from '../utils/fetch';
+import type { BackendTarget, Env } from '../types';
+import { getBackendFetch, selectBackend, toBackendUrl } from '../utils/backends';
+import { reportBackendOutcome, responseOutcome } from '../utils/circuit-breaker';
+import { readEarlyData } from '../utils/early-data';
+import { BACKEND_PASSTHROUGH_TIMEOUT_MS, fetchWithTimeout, isAbortError } from '../utils/fetch';
 import { textResponse } from '../utils/response';
-import {
-  bridgeSockets,
-  buildBackendPassthroughHeaders,
-  buildBackendUpgradeHeaders,
-  hasUpgradeRequest,
-  parseBackendUrl,
-  safeClose,
-  toPassthroughInit,
-} from '../utils/socket';
+import { buildBackendPassthroughHeaders, hasUpgradeRequest, toPassthroughInit } from '../utils/socket';
+import { relayUpgrade } from '../utils/upgrade-relay';
 
 function isDebugEnabled(env: Env): boolean {
   return env.DEBUG === 'true';
@@ -25,7 +16,12 @@ function validateRequest(request: Request): Response | null {
   return null;
 }
 
-export async function handleUpgrade(request: Request, env: Env): Promise<Response> {
+export async function handleUpgrade(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  earlyDataBytes = 0,
+): Promise<Response> {
   const validationError = validateRequest(request);
 
   if (validationError) {
@@ -33,12 +29,14 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
   }
 
   const debugEnabled = isDebugEnabled(env);
-  const requestUrl = new URL(request.url);
   const hasUpgrade = hasUpgradeRequest(request, true);
+  const requestUrl = new URL(request.url);
+  let backend: BackendTarget;
   let backendUrl: URL;
 
   try {
-    backendUrl = parseBackendUrl(request, env, requestUrl);
+    backend = selectBackend(request, env, requestUrl);
+    backendUrl = toBackendUrl(backend, requestUrl);
   } catch (error) {
     return textResponse(500, error instanceof Error ? error.message : 'Invalid backend configuration.');
   }
@@ -54,12 +52,17 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
     }
 
     try {
-      return await fetchWithTimeout(
+      const backendResponse = await fetchWithTimeout(
         backendUrl.toString(),
         toPassthroughInit(request, passthroughHeaders),
         BACKEND_PASSTHROUGH_TIMEOUT_MS,
+        getBackendFetch(backend, env),
       );
+      reportBackendOutcome(env, ctx, backend, responseOutcome(backendResponse.status));
+      return backendResponse;
     } catch (error) {
+      reportBackendOutcome(env, ctx, backend, 'failure');
+
       if (isAbortError(error)) {
         return textResponse(502, 'Backend request timed out.');
       }
@@ -76,61 +79,15 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
     return textResponse(400, 'ws upgrade requests must use GET.');
   }
 
-  const socketPair = new WebSocketPair();
-  const clientSocket = socketPair[0];
-  const workerSocket = socketPair[1];
-  workerSocket.accept();
-
-  const backendHeaders = buildBackendUpgradeHeaders(request);
-
-  if (debugEnabled) {
-    console.log('[ws]', 'dialing backend', {
-      backendUrl: backendUrl.toString(),
-      subprotocol: backendHeaders.get('sec-websocket-protocol') ?? 'none',
-    });
-  }
-
-  try {
-    const backendResponse = await fetchWithTimeout(
-      backendUrl.toString(),
-      {
-        method: 'GET',
-        headers: backendHeaders,
-        redirect: 'manual',
-      },
-      BACKEND_UPGRADE_TIMEOUT_MS,
-    );
-
-    if (backendResponse.status !== 101 || !backendResponse.webSocket) {
-      await backendResponse.body?.cancel();
-      safeClose(workerSocket, 1011, `Backend upgrade rejected (${backendResponse.status})`);
-      return textResponse(502, `Backend failed to upgrade connection (status ${backendResponse.status}).`);
-    }
-
-    const backendSocket = backendResponse.webSocket;
-    backendSocket.accept();
-
-    bridgeSockets(workerSocket, backendSocket, (direction, error) => {
-      if (debugEnabled) {
-        console.log('[ws]', 'relay error', { direction, error });
-      }
-    });
-
-    return new Response(null, {
-      status: 101,
-      webSocket: clientSocket,
-    });
-  } catch (error) {
-    safeClose(workerSocket, 1011, 'Unable to connect to backend');
-
-    if (isAbortError(error)) {
-      return textResponse(502, 'Backend upgrade timed out.');
-    }
-
-    if (debugEnabled) {
-      console.error('[ws] backend connection error', error);
-    }
-
-    return textResponse(502, 'Unable to connect to backend service.');
-  }
+  return relayUpgrade({
+    request,
+    env,
+    ctx,
+    logPrefix: '[ws]',
+    requestUrl,
+    backend,
+    backendUrl,
+    earlyData: readEarlyData(request, earlyDataBytes),
+    logDetails: { subprotocol: request.headers.get('sec-websocket-protocol') ?? 'none' },
+  });
 }
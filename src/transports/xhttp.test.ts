@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BackendTarget, Env } from '../types';
+import { parseBackendPool } from '../utils/backends';
+import { getLastFailureAt } from '../utils/circuit-breaker';
+import { handleUpgrade } from './xhttp';
+
+const USER_ID = '0d1c2b3a-4e5f-6071-8293-a4b5c6d7e8f9';
+const UNKNOWN_USER_ID = 'ffffffff-4e5f-6071-8293-a4b5c6d7e8f9';
+const SESSION_ID = '6f1d3c2a-9b8e-4d7c-a6b5-c4d3e2f1a0b9';
+
+interface FakeOrigin {
+  fetcher: Fetcher;
+  /** Bodies of the requests that reached the origin. */
+  bodies: string[];
+}
+
+function createFakeOrigin(): FakeOrigin {
+  const bodies: string[] = [];
+  const fetcher = {
+    fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
+      bodies.push(await new Request(input, init).text());
+      return new Response('ok');
+    },
+  };
+
+  return { fetcher: fetcher as unknown as Fetcher, bodies };
+}
+
+function buildVlessFrame(userId: string, payload: string): Uint8Array<ArrayBuffer> {
+  const uuid =
+    userId
+      .replace(/-/g, '')
+      .match(/../g)
+      ?.map((byte) => parseInt(byte, 16)) ?? [];
+  const encoder = new TextEncoder();
+  const header = [0, ...uuid, 0, 1, 0, 80, 2, 11, ...encoder.encode('example.com')];
+
+  return new Uint8Array([...header, ...encoder.encode(payload)]);
+}
+
+function createEnv(origin: FakeOrigin): Env {
+  return {
+    BACKEND_URLS: 'service:ORIGIN',
+    ORIGIN: origin.fetcher,
+    VLESS_AUTH: 'true',
+    VLESS_UUIDS: USER_ID,
+  } as unknown as Env;
+}
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+function postPacket(
+  seq: number,
+  body: Uint8Array<ArrayBuffer>,
+  sessionId: string = SESSION_ID,
+): Request {
+  return new Request(`https://proxy.example.com/xhttp/${sessionId}/${seq}`, {
+    method: 'POST',
+    body,
+  });
+}
+
+describe('native XHTTP edge checks', () => {
+  it('forwards the first packet of an allowed user with its body intact', async () => {
+    const origin = createFakeOrigin();
+    const frame = buildVlessFrame(USER_ID, 'ping');
+
+    const response = await handleUpgrade(postPacket(0, frame), createEnv(origin), ctx);
+
+    expect(response.status).toBe(200);
+    expect(origin.bodies).toEqual([new TextDecoder().decode(frame)]);
+  });
+
+  it('rejects the first packet of an unknown user before the origin', async () => {
+    const origin = createFakeOrigin();
+
+    const response = await handleUpgrade(
+      postPacket(0, buildVlessFrame(UNKNOWN_USER_ID, 'ping')),
+      createEnv(origin),
+      ctx,
+    );
+
+    expect(response.status).toBe(403);
+    expect(origin.bodies).toEqual([]);
+  });
+
+  it('rejects a stream-one upload of an unknown user before the origin', async () => {
+    const origin = createFakeOrigin();
+    const request = new Request('https://proxy.example.com/xhttp/', {
+      method: 'POST',
+      body: buildVlessFrame(UNKNOWN_USER_ID, 'ping'),
+    });
+
+    const response = await handleUpgrade(request, createEnv(origin), ctx);
+
+    expect(response.status).toBe(403);
+    expect(origin.bodies).toEqual([]);
+  });
+});
+
+describe('native XHTTP sessions', () => {
+  function createSessionEnv(origin: FakeOrigin): Env {
+    return { ...createEnv(origin), FIRST_FRAME_TIMEOUT_MS: '50' };
+  }
+
+  it('refuses the download and later packets of a session no checked upload opened', async () => {
+    const origin = createFakeOrigin();
+    const env = createSessionEnv(origin);
+    const sessionId = crypto.randomUUID();
+    const download = new Request(`https://proxy.example.com/xhttp/${sessionId}`);
+    const packet = postPacket(1, new TextEncoder().encode('pong'), sessionId);
+
+    expect((await handleUpgrade(download, env, ctx)).status).toBe(403);
+    expect((await handleUpgrade(packet, env, ctx)).status).toBe(403);
+    expect(origin.bodies).toEqual([]);
+  });
+
+  it('keeps a session closed when its first packet is rejected', async () => {
+    const origin = createFakeOrigin();
+    const env = createSessionEnv(origin);
+    const sessionId = crypto.randomUUID();
+    const first = postPacket(0, buildVlessFrame(UNKNOWN_USER_ID, 'ping'), sessionId);
+    const second = postPacket(1, new TextEncoder().encode('pong'), sessionId);
+
+    expect((await handleUpgrade(first, env, ctx)).status).toBe(403);
+    expect((await handleUpgrade(second, env, ctx)).status).toBe(403);
+    expect(origin.bodies).toEqual([]);
+  });
+
+  it('holds an early download until the first packet opens the session', async () => {
+    const origin = createFakeOrigin();
+    const env = { ...createEnv(origin), FIRST_FRAME_TIMEOUT_MS: '1000' } as Env;
+    const sessionId = crypto.randomUUID();
+    const download = handleUpgrade(
+      new Request(`https://proxy.example.com/xhttp/${sessionId}`),
+      env,
+      ctx,
+    );
+    const first = await handleUpgrade(
+      postPacket(0, buildVlessFrame(USER_ID, 'ping'), sessionId),
+      env,
+      ctx,
+    );
+    const second = await handleUpgrade(
+      postPacket(1, new TextEncoder().encode('pong'), sessionId),
+      env,
+      ctx,
+    );
+
+    expect([first.status, (await download).status, second.status]).toEqual([200, 200, 200]);
+    expect(origin.bodies).toHaveLength(3);
+  });
+
+  it('meters the later packets of a session under the user that opened it', async () => {
+    vi.useFakeTimers();
+    const origin = createFakeOrigin();
+    const tags: string[] = [];
+    const env = {
+      ...createSessionEnv(origin),
+      TRAFFIC_ACCOUNTING: 'true',
+      TRAFFIC_USAGE: {
+        idFromName: (tag: string) => tag,
+        get: (tag: string) => ({
+          record: () => {
+            tags.push(tag);
+            return Promise.resolve({ exceeded: null, remainingBytes: null });
+          },
+        }),
+      },
+    } as unknown as Env;
+    const sessionId = crypto.randomUUID();
+
+    try {
+      const requests = [
+        postPacket(0, buildVlessFrame(USER_ID, 'ping'), sessionId),
+        postPacket(1, new TextEncoder().encode('pong'), sessionId),
+      ];
+
+      for (const request of requests) {
+        expect(await (await handleUpgrade(request, env, ctx)).text()).toBe('ok');
+      }
+
+      await vi.advanceTimersByTimeAsync(10_000);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(tags).toEqual([`user:${USER_ID}`]);
+  });
+});
+
+describe('native XHTTP backend selection', () => {
+  it('sends the download and every upload of a session to one backend', async () => {
+    const origins = [createFakeOrigin(), createFakeOrigin(), createFakeOrigin()];
+    const env = {
+      BACKEND_URLS: 'service:ORIGIN_A,service:ORIGIN_B,service:ORIGIN_C',
+      BACKEND_STRATEGY: 'round-robin',
+      ORIGIN_A: origins[0]?.fetcher,
+      ORIGIN_B: origins[1]?.fetcher,
+      ORIGIN_C: origins[2]?.fetcher,
+    } as unknown as Env;
+    const encoder = new TextEncoder();
+    const requests = [
+      new Request(`https://proxy.example.com/xhttp/${SESSION_ID}`),
+      postPacket(0, encoder.encode('a')),
+      postPacket(1, encoder.encode('b')),
+      postPacket(2, encoder.encode('c')),
+    ];
+
+    for (const request of requests) {
+      expect((await handleUpgrade(request, env, ctx)).status).toBe(200);
+    }
+
+    expect(origins.map((origin) => origin.bodies.length).sort()).toEqual([0, 0, 4]);
+  });
+});
+
+describe('native XHTTP passthrough outcomes', () => {
+  async function downloadFrom(binding: string, status: number): Promise<boolean> {
+    const env = {
+      BACKEND_URLS: `service:${binding}`,
+      [binding]: { fetch: () => Promise.resolve(new Response(null, { status })) },
+    } as unknown as Env;
+    const [backend] = parseBackendPool(env) as [BackendTarget];
+
+    await handleUpgrade(new Request(`https://proxy.example.com/xhttp/${SESSION_ID}`), env, ctx);
+    return getLastFailureAt(backend) > 0;
+  }
+
+  it('counts a 5xx answer against the backend', async () => {
+    expect(await downloadFrom('BROKEN', 503)).toBe(true);
+  });
+
+  it('counts a 4xx answer as a working backend', async () => {
+    expect(await downloadFrom('PICKY', 404)).toBe(false);
+  });
+});
@@ -1,26 +1,48 @@
-import type { Env } from '../types';
+import { inspectFirstFrame, needsFirstFrameInspection, readFrameUserId } from '../inspection';
+import { resolveFrameBackend } from '../sniffing';
+import type { BackendTarget, Env, InspectionVerdict } from '../types';
+import { getBackendFetch, selectBackend, toBackendUrl } from '../utils/backends';
+import { getBandwidthLimits } from '../utils/bandwidth';
+import type { BufferedBody } from '../utils/body';
+import { firstChunkLength, readFirstFrame, replayBody } from '../utils/body';
+import { reportBackendOutcome, responseOutcome } from '../utils/circuit-breaker';
+import { readEarlyData } from '../utils/early-data';
+import { parsePositiveInteger } from '../utils/env';
 import {
   BACKEND_PASSTHROUGH_TIMEOUT_MS,
-  BACKEND_UPGRADE_TIMEOUT_MS,
+  FIRST_FRAME_TIMEOUT_MS,
   fetchWithTimeout,
   isAbortError,
 } from '../utils/fetch';
+import { createHttpBodyRelay } from '../utils/http-relay';
+import { limitHttpRequest, rateLimitResponse } from '../utils/rate-limit';
 import { textResponse } from '../utils/response';
-import {
-  bridgeSockets,
-  buildBackendPassthroughHeaders,
-  buildBackendUpgradeHeaders,
-  hasUpgradeRequest,
-  parseBackendUrl,
-  safeClose,
-  toPassthroughInit,
-} from '../utils/socket';
+import { buildBackendPassthroughHeaders, hasUpgradeRequest, toPassthroughInit } from '../utils/socket';
+import { delayHttpRejection } from '../utils/timing';
+import type { UpgradeTarget } from '../utils/upgrade-relay';
+import { relayUpgrade } from '../utils/upgrade-relay';
+import { awaitXhttpSession, openXhttpSession } from '../utils/xhttp-sessions';
+
+type XhttpMode = 'auto' | 'packet-up' | 'stream-up' | 'stream-one';
+type XhttpRequestKind = 'download' | 'packet-up' | 'stream-up' | 'stream-one';
+
+interface XhttpRequestLayout {
+  kind: XhttpRequestKind | null;
+  sessionId: string | null;
+  seq: number | null;
+}
 
-type XhttpMode = 'auto' | 'packet-up';
+const ALLOWED_MODES: readonly XhttpMode[] = ['auto', 'packet-up', 'stream-up', 'stream-one'];
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SEQ_PATTERN = /^\d{1,10}$/;
 
-const EARLY_DATA_HEADER = 'sec-websocket-protocol';
-const MAX_EARLY_DATA_BYTES = 64 * 1024;
-const ALLOWED_MODES: readonly XhttpMode[] = ['auto', 'packet-up'];
+// Which explicit mode hints are compatible with each request shape Xray sends.
+const KIND_MODES: Record<XhttpRequestKind, readonly XhttpMode[]> = {
+  download: ['auto', 'packet-up', 'stream-up'],
+  'packet-up': ['auto', 'packet-up'],
+  'stream-up': ['auto', 'stream-up'],
+  'stream-one': ['auto', 'stream-one'],
+};
 
 function isDebugEnabled(env: Env): boolean {
   return env.DEBUG === 'true';
@@ -31,22 +53,6 @@ function validateRequest(request: Request): Response | null {
   return null;
 }
 
-function parseEarlyDataHint(url: URL): number {
-  const raw = url.searchParams.get('ed');
-
-  if (raw === null) {
-    return 0;
-  }
-
-  const parsed = Number(raw);
-
-  if (!Number.isFinite(parsed) || !Number.isInteger(parsed) || parsed < 0) {
-    throw new Error('Invalid early-data hint. The ed query parameter must be a non-negative integer.');
-  }
-
-  return Math.min(parsed, MAX_EARLY_DATA_BYTES);
-}
-
 function parseMode(url: URL, request: Request): XhttpMode {
   const fromQuery = url.searchParams.get('mode')?.toLowerCase();
   const fromHeader = request.headers.get('x-xhttp-mode')?.toLowerCase();
@@ -56,58 +62,169 @@ function parseMode(url: URL, request: Request): XhttpMode {
     return mode as XhttpMode;
   }
 
-  throw new Error('Invalid xhttp mode. Supported values are auto and packet-up.');
+  throw new Error('Invalid xhttp mode. Supported values are auto, packet-up, stream-up and stream-one.');
 }
 
-function isLikelyBase64UrlToken(value: string): boolean {
-  return value.length > 0 && /^[A-Za-z0-9_-]+$/.test(value);
-}
+/**
+ * Xray XHTTP (SplitHTTP) encodes the session and packet sequence in the trailing path segments:
+ * - GET  {path}/{session}        download stream (packet-up and stream-up)
+ * - POST {path}/{session}/{seq}  one upload packet (packet-up)
+ * - POST {path}/{session}        streaming upload (stream-up)
+ * - POST {path}/                 bidirectional stream (stream-one)
+ */
+function parseXhttpLayout(url: URL, method: string): XhttpRequestLayout {
+  const segments = url.pathname.split('/').filter((segment) => segment.length > 0);
+  const last = segments[segments.length - 1] ?? '';
+  const previous = segments[segments.length - 2] ?? '';
+
+  if (method === 'GET') {
+    if (SESSION_ID_PATTERN.test(last)) {
+      return { kind: 'download', sessionId: last, seq: null };
+    }
 
-function decodeBase64UrlToUint8Array(base64Url: string): Uint8Array {
-  const normalized = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-  const paddingNeeded = (4 - (normalized.length % 4)) % 4;
-  const padded = normalized + '='.repeat(paddingNeeded);
-  const binary = atob(padded);
-  const output = new Uint8Array(binary.length);
+    return { kind: null, sessionId: null, seq: null };
+  }
 
-  for (let i = 0; i < binary.length; i += 1) {
-    output[i] = binary.charCodeAt(i);
+  if (method !== 'POST') {
+    return { kind: null, sessionId: null, seq: null };
   }
 
-  return output;
-}
+  if (SEQ_PATTERN.test(last) && SESSION_ID_PATTERN.test(previous)) {
+    return { kind: 'packet-up', sessionId: previous, seq: Number(last) };
+  }
 
-function parseEarlyDataFromHeader(request: Request, maxBytes: number): Uint8Array | null {
-  if (maxBytes <= 0) {
-    return null;
+  if (SESSION_ID_PATTERN.test(last)) {
+    return { kind: 'stream-up', sessionId: last, seq: null };
   }
 
-  const rawHeader = request.headers.get(EARLY_DATA_HEADER);
+  return { kind: 'stream-one', sessionId: null, seq: null };
+}
 
-  if (!rawHeader) {
-    return null;
-  }
+function isStreamingKind(kind: XhttpRequestKind | null): boolean {
+  return kind === 'download' || kind === 'stream-up' || kind === 'stream-one';
+}
+
+function toStreamingResponse(response: Response, body: ReadableStream<Uint8Array> | null): Response {
+  const headers = new Headers(response.headers);
+  // Ask intermediaries not to buffer the long-lived XHTTP body.
+  headers.set('X-Accel-Buffering', 'no');
+  headers.set('Cache-Control', 'no-store');
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/** True for the uploads that open a session: the first packet-up packet and streaming uploads. */
+function carriesFirstUpload(layout: XhttpRequestLayout): boolean {
+  return (
+    layout.kind === 'stream-up' ||
+    layout.kind === 'stream-one' ||
+    (layout.kind === 'packet-up' && layout.seq === 0)
+  );
+}
+
+/**
+ * Runs the edge checks on the first chunk of a native XHTTP upload, the client's first frame. Accepted
+ * uploads are forwarded with the read chunk replayed. A `stream-one` request carries the whole tunnel,
+ * so it may also be sent to the backend of its sniffed protocol; the requests of a split session keep
+ * the backend their session ID hashes to, since they must all reach the same one.
+ */
+async function inspectUpload(
+  request: Request,
+  env: Env,
+  requestUrl: URL,
+  layout: XhttpRequestLayout,
+  backend: BackendTarget,
+  body: ReadableStream<Uint8Array>,
+): Promise<
+  { body: ReadableStream<Uint8Array>; target: UpgradeTarget; userId: string | null } | { response: Response }
+> {
+  const debugEnabled = isDebugEnabled(env);
+  let buffered: BufferedBody;
 
-  const token = rawHeader.split(',')[0]?.trim();
+  try {
+    buffered = await readFirstFrame(
+      body,
+      parsePositiveInteger(env.FIRST_FRAME_TIMEOUT_MS, FIRST_FRAME_TIMEOUT_MS),
+      firstChunkLength,
+    );
+  } catch (error) {
+    if (debugEnabled) {
+      console.log('[xhttp]', 'first upload frame not readable', { error });
+    }
 
-  if (!token || !isLikelyBase64UrlToken(token)) {
-    return null;
+    return { response: textResponse(400, 'Invalid xhttp upload.') };
   }
 
+  let verdict: InspectionVerdict;
+
   try {
-    const decoded = decodeBase64UrlToUint8Array(token);
+    verdict = await inspectFirstFrame(env, buffered.frame);
+  } catch (error) {
+    buffered.reader.cancel().catch(() => {
+      // Ignore cancel errors; the request is being rejected.
+    });
+
+    if (debugEnabled) {
+      console.error('[xhttp] first upload frame inspection error', error);
+    }
 
-    if (decoded.byteLength > maxBytes) {
-      return null;
+    return { response: textResponse(500, 'Inspection failed.') };
+  }
+
+  if (!verdict.allowed) {
+    buffered.reader.cancel().catch(() => {
+      // Ignore cancel errors; the request is being rejected.
+    });
+
+    if (debugEnabled) {
+      console.log('[xhttp]', 'client rejected before dialing backend', {
+        reason: verdict.reason,
+        behaviour: verdict.behaviour,
+        kind: layout.kind,
+        sessionId: layout.sessionId,
+      });
     }
 
-    return decoded;
-  } catch {
-    return null;
+    await delayHttpRejection(verdict.behaviour);
+    return { response: textResponse(403, 'Unauthorized.') };
+  }
+
+  let target: UpgradeTarget = { backend, env };
+
+  if (layout.kind === 'stream-one') {
+    try {
+      target = await resolveFrameBackend(request, env, requestUrl, buffered.frame, backend);
+    } catch (error) {
+      buffered.reader.cancel().catch(() => {
+        // Ignore cancel errors; the request is being rejected.
+      });
+
+      return {
+        response: textResponse(
+          500,
+          error instanceof Error ? error.message : 'Invalid backend configuration.',
+        ),
+      };
+    }
   }
+
+  return {
+    body: replayBody(buffered),
+    target,
+    userId: verdict.userId ?? readFrameUserId(buffered.frame),
+  };
 }
 
-export async function handleUpgrade(request: Request, env: Env): Promise<Response> {
+export async function handleUpgrade(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  earlyDataBytes = 0,
+): Promise<Response> {
   const validationError = validateRequest(request);
 
   if (validationError) {
@@ -115,28 +232,31 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
   }
 
   const debugEnabled = isDebugEnabled(env);
-  const requestUrl = new URL(request.url);
   const hasUpgrade = hasUpgradeRequest(request, true);
 
-  let earlyDataHint: number;
+  const requestUrl = new URL(request.url);
   let mode: XhttpMode;
 
   if (hasUpgrade) {
     try {
-      earlyDataHint = parseEarlyDataHint(requestUrl);
       mode = parseMode(requestUrl, request);
     } catch (error) {
       return textResponse(400, error instanceof Error ? error.message : 'Invalid xhttp options.');
     }
   } else {
-    earlyDataHint = 0;
     mode = 'auto';
   }
+  const layout: XhttpRequestLayout = hasUpgrade
+    ? { kind: null, sessionId: null, seq: null }
+    : parseXhttpLayout(requestUrl, request.method.toUpperCase());
 
+  let backend: BackendTarget;
   let backendUrl: URL;
 
   try {
-    backendUrl = parseBackendUrl(request, env, requestUrl);
+    // The download and uploads of a split session are separate requests that must reach one backend.
+    backend = selectBackend(request, env, requestUrl, layout.sessionId);
+    backendUrl = toBackendUrl(backend, requestUrl);
   } catch (error) {
     return textResponse(500, error instanceof Error ? error.message : 'Invalid backend configuration.');
   }
@@ -144,100 +264,163 @@ export async function handleUpgrade(request: Request, env: Env): Promise<Respons
   if (!hasUpgrade) {
     const passthroughHeaders = buildBackendPassthroughHeaders(request);
 
-    if (debugEnabled) {
-      console.log('[xhttp]', 'forwarding non-upgrade xhttp request', {
-        backendUrl: backendUrl.toString(),
-        method: request.method,
-      });
-    }
+    if (layout.kind) {
+      let modeHint: XhttpMode;
 
-    try {
-      return await fetchWithTimeout(
-        backendUrl.toString(),
-        toPassthroughInit(request, passthroughHeaders),
-        BACKEND_PASSTHROUGH_TIMEOUT_MS,
-      );
-    } catch (error) {
-      if (isAbortError(error)) {
-        return textResponse(502, 'Backend request timed out.');
+      try {
+        modeHint = parseMode(requestUrl, request);
+      } catch (error) {
+        return textResponse(400, error instanceof Error ? error.message : 'Invalid xhttp options.');
       }
 
-      if (debugEnabled) {
-        console.error('[xhttp] backend passthrough error', error);
+      if (!KIND_MODES[layout.kind].includes(modeHint)) {
+        return textResponse(400, `xhttp ${layout.kind} request does not match mode ${modeHint}.`);
       }
-
-      return textResponse(502, 'Unable to connect to backend service.');
     }
-  }
 
-  const socketPair = new WebSocketPair();
-  const clientSocket = socketPair[0];
-  const workerSocket = socketPair[1];
-  workerSocket.accept();
+    let target: UpgradeTarget = { backend, env };
+    let userId: string | null = null;
+    let body: ReadableStream<Uint8Array> | null = request.body;
+    const init = toPassthroughInit(request, passthroughHeaders);
 
-  const backendHeaders = buildBackendUpgradeHeaders(request);
+    if (carriesFirstUpload(layout) && needsFirstFrameInspection(env)) {
+      // An opening upload without a body has no first frame to check, so it cannot open the session.
+      if (!request.body) {
+        return textResponse(400, 'Invalid xhttp upload.');
+      }
 
-  // xhttp early-data may be encoded in Sec-WebSocket-Protocol on some clients.
-  const earlyDataChunk = parseEarlyDataFromHeader(request, earlyDataHint);
-  if (earlyDataChunk) {
-    // Prevent duplicated delivery when early-data is extracted and sent as first WS frame.
-    backendHeaders.delete(EARLY_DATA_HEADER);
-  }
+      const inspection = await inspectUpload(request, env, requestUrl, layout, backend, request.body);
 
-  if (debugEnabled) {
-    console.log('[xhttp]', 'dialing backend', {
-      backendUrl: backendUrl.toString(),
-      mode,
-      earlyDataHint,
-      earlyDataBytes: earlyDataChunk?.byteLength ?? 0,
-    });
-  }
+      if ('response' in inspection) {
+        return inspection.response;
+      }
 
-  try {
-    const backendResponse = await fetchWithTimeout(
-      backendUrl.toString(),
-      {
-        method: 'GET',
-        headers: backendHeaders,
-        redirect: 'manual',
-      },
-      BACKEND_UPGRADE_TIMEOUT_MS,
-    );
+      target = inspection.target;
+      userId = inspection.userId;
+      body = inspection.body;
 
-    if (backendResponse.status !== 101 || !backendResponse.webSocket) {
-      await backendResponse.body?.cancel();
-      safeClose(workerSocket, 1011, `Backend upgrade rejected (${backendResponse.status})`);
-      return textResponse(502, `Backend failed to upgrade connection (status ${backendResponse.status}).`);
-    }
+      if (layout.sessionId) {
+        await openXhttpSession(env, layout.sessionId, userId);
+      }
+    } else if (layout.sessionId && needsFirstFrameInspection(env)) {
+      const session = await awaitXhttpSession(
+        env,
+        layout.sessionId,
+        parsePositiveInteger(env.FIRST_FRAME_TIMEOUT_MS, FIRST_FRAME_TIMEOUT_MS),
+      );
+
+      if (!session) {
+        request.body?.cancel().catch(() => {
+          // Ignore cancel errors; the request is being rejected.
+        });
 
-    const backendSocket = backendResponse.webSocket;
-    backendSocket.accept();
+        if (debugEnabled) {
+          console.log('[xhttp]', 'request of a session no checked upload opened', {
+            kind: layout.kind,
+            sessionId: layout.sessionId,
+            seq: layout.seq,
+          });
+        }
+
+        return textResponse(403, 'Unauthorized.');
+      }
 
-    if (earlyDataChunk && earlyDataChunk.byteLength > 0) {
-      backendSocket.send(earlyDataChunk);
+      // Downloads and later packets carry no first frame; they count against the user of the session.
+      userId = session.userId;
     }
 
-    bridgeSockets(workerSocket, backendSocket, (direction, error) => {
+    const limiter = await limitHttpRequest(request, env, ctx, userId, layout.sessionId);
+
+    if (limiter.rejection) {
+      body?.cancel().catch(() => {
+        // Ignore cancel errors; the request is being rejected.
+      });
+
       if (debugEnabled) {
-        console.log('[xhttp]', 'relay error', { direction, error });
+        console.log('[xhttp]', 'request over client limits', {
+          reason: limiter.rejection.reason,
+          kind: layout.kind,
+          sessionId: layout.sessionId,
+        });
       }
-    });
 
-    return new Response(null, {
-      status: 101,
-      webSocket: clientSocket,
-    });
-  } catch (error) {
-    safeClose(workerSocket, 1011, 'Unable to connect to backend');
+      return rateLimitResponse(limiter.rejection);
+    }
 
-    if (isAbortError(error)) {
-      return textResponse(502, 'Backend upgrade timed out.');
+    const relay = createHttpBodyRelay(getBandwidthLimits(target.env, userId));
+
+    if (body) {
+      init.body = relay.upload(body);
     }
 
+    const targetUrl = toBackendUrl(target.backend, requestUrl);
+
     if (debugEnabled) {
-      console.error('[xhttp] backend connection error', error);
+      console.log('[xhttp]', 'forwarding non-upgrade xhttp request', {
+        backendUrl: targetUrl.toString(),
+        method: request.method,
+        kind: layout.kind ?? 'passthrough',
+        sessionId: layout.sessionId,
+        seq: layout.seq,
+      });
     }
 
-    return textResponse(502, 'Unable to connect to backend service.');
+    try {
+      const backendFetch = getBackendFetch(target.backend, target.env);
+
+      if (isStreamingKind(layout.kind)) {
+        // Download and streaming uploads live as long as the tunnel does, so no deadline applies.
+        const backendResponse = await backendFetch(targetUrl.toString(), init);
+        reportBackendOutcome(
+          target.env,
+          ctx,
+          target.backend,
+          responseOutcome(backendResponse.status),
+        );
+        const response = toStreamingResponse(backendResponse, relay.download(backendResponse.body));
+        limiter.track(relay);
+        return response;
+      }
+
+      const backendResponse = await fetchWithTimeout(
+        targetUrl.toString(),
+        init,
+        BACKEND_PASSTHROUGH_TIMEOUT_MS,
+        backendFetch,
+      );
+      reportBackendOutcome(
+        target.env,
+        ctx,
+        target.backend,
+        responseOutcome(backendResponse.status),
+      );
+      const response = new Response(relay.download(backendResponse.body), backendResponse);
+      limiter.track(relay);
+      return response;
+    } catch (error) {
+      reportBackendOutcome(target.env, ctx, target.backend, 'failure');
+
+      if (isAbortError(error)) {
+        return textResponse(502, 'Backend request timed out.');
+      }
+
+      if (debugEnabled) {
+        console.error('[xhttp] backend passthrough error', error);
+      }
+
+      return textResponse(502, 'Unable to connect to backend service.');
+    }
   }
+
+  return relayUpgrade({
+    request,
+    env,
+    ctx,
+    logPrefix: '[xhttp]',
+    requestUrl,
+    backend,
+    backendUrl,
+    earlyData: readEarlyData(request, earlyDataBytes),
+    logDetails: { mode, earlyDataHint: earlyDataBytes },
+  });
 }
@@ -1,9 +1,300 @@
-export type TransportType = 'xhttp' | 'httpupgrade' | 'ws';
+import type { BackendHealth } from './state/backend-health';
+import type { ClientLimits } from './state/client-limits';
+import type { TrafficUsage } from './state/traffic-usage';
+import type { XhttpSessions } from './state/xhttp-sessions';
+
+export type TransportType = 'xhttp' | 'httpupgrade' | 'ws' | 'grpc';
+
+export type BackendStrategy =
+  | 'round-robin'
+  | 'weighted-random'
+  | 'least-recently-failed'
+  | 'hash-ip'
+  | 'hash-path';
+
+/** What upgrade limits are counted per: client IP, proxy user, or routing rule. */
+export type RateLimitKeyMode = 'ip' | 'user' | 'route';
+
+/** Proxy protocol carried inside a transport; `shadowsocks` covers every unrecognised stream. */
+export type ProxyProtocol = 'vless' | 'vmess' | 'trojan' | 'shadowsocks';
 
 export interface Env {
   BACKEND_URL?: string;
+  BACKEND_URLS?: string;
+  BACKEND_STRATEGY?: BackendStrategy;
+  BACKEND_ATTEMPT_TIMEOUT_MS?: string;
+  BACKEND_FAILOVER_DEADLINE_MS?: string;
+  CIRCUIT_FAILURE_THRESHOLD?: string;
+  CIRCUIT_COOLDOWN_MS?: string;
+  BACKEND_HEALTH?: DurableObjectNamespace<BackendHealth>;
+  HEALTH_CHECK_PATHS?: string;
+  HEALTH_CHECK_TIMEOUT_MS?: string;
+  ROUTES?: string;
+  ROUTES_KV?: KVNamespace;
+  HOST_PROFILES?: string;
+  VLESS_AUTH?: string;
+  VLESS_UUIDS?: string;
+  USERS_KV?: KVNamespace;
+  FIRST_FRAME_TIMEOUT_MS?: string;
+  VLESS_INBOUND?: string;
+  VMESS_AUTH?: string;
+  VMESS_UUIDS?: string;
+  VMESS_AUTH_FAILURE?: string;
+  DESTINATION_POLICY?: string;
+  PROTOCOL_BACKENDS?: string;
+  /** Protocol the request is declared to carry (set by a routing rule or host profile). */
+  PROTOCOL?: ProxyProtocol;
+  TROJAN_AUTH?: string;
+  TROJAN_PASSWORDS?: string;
+  TROJAN_PASSWORD_HASHES?: string;
+  TROJAN_INBOUND?: string;
+  HTTPUPGRADE_RAW?: string;
+  HANDSHAKE_HEADERS_ALLOW?: string;
+  HANDSHAKE_HEADERS_DENY?: string;
+  CLIENT_BUFFER_MAX_BYTES?: string;
+  RELAY_HIGH_WATERMARK_BYTES?: string;
+  RELAY_LOW_WATERMARK_BYTES?: string;
+  RELAY_STALL_TIMEOUT_MS?: string;
+  CLIENT_IDLE_TIMEOUT_MS?: string;
+  BACKEND_IDLE_TIMEOUT_MS?: string;
+  MAX_SESSION_MS?: string;
+  BACKEND_KEEPALIVE_INTERVAL_MS?: string;
+  RATE_LIMIT_UPGRADES_PER_MINUTE?: string;
+  RATE_LIMIT_MAX_CONNECTIONS?: string;
+  RATE_LIMIT_KEY?: string;
+  CLIENT_LIMITS?: DurableObjectNamespace<ClientLimits>;
+  TRAFFIC_ACCOUNTING?: string;
+  TRAFFIC_DAILY_QUOTA_BYTES?: string;
+  TRAFFIC_MONTHLY_QUOTA_BYTES?: string;
+  TRAFFIC_USAGE?: DurableObjectNamespace<TrafficUsage>;
+  XHTTP_SESSIONS?: DurableObjectNamespace<XhttpSessions>;
+  BANDWIDTH_UPLOAD_BYTES_PER_SECOND?: string;
+  BANDWIDTH_DOWNLOAD_BYTES_PER_SECOND?: string;
+  BANDWIDTH_BURST_BYTES?: string;
+  BANDWIDTH_USERS?: string;
+  CLIENT_ACCESS_POLICY?: string;
+  /** Name of the routing rule that matched the request (set by the router). */
+  ROUTE_NAME?: string;
   TRANSPORT?: TransportType;
   DEBUG?: string;
 }
 
+/** Env variables a routing rule may override for the requests it matches. */
+export type RouteOptionKey =
+  | 'BACKEND_ATTEMPT_TIMEOUT_MS'
+  | 'BACKEND_FAILOVER_DEADLINE_MS'
+  | 'DEBUG'
+  | 'VLESS_AUTH'
+  | 'VLESS_UUIDS'
+  | 'VMESS_AUTH'
+  | 'VMESS_UUIDS'
+  | 'VMESS_AUTH_FAILURE'
+  | 'VLESS_INBOUND'
+  | 'DESTINATION_POLICY'
+  | 'PROTOCOL_BACKENDS'
+  | 'TROJAN_AUTH'
+  | 'TROJAN_PASSWORDS'
+  | 'TROJAN_PASSWORD_HASHES'
+  | 'TROJAN_INBOUND'
+  | 'HTTPUPGRADE_RAW'
+  | 'HANDSHAKE_HEADERS_ALLOW'
+  | 'HANDSHAKE_HEADERS_DENY'
+  | 'CLIENT_BUFFER_MAX_BYTES'
+  | 'RELAY_HIGH_WATERMARK_BYTES'
+  | 'RELAY_LOW_WATERMARK_BYTES'
+  | 'RELAY_STALL_TIMEOUT_MS'
+  | 'CLIENT_IDLE_TIMEOUT_MS'
+  | 'BACKEND_IDLE_TIMEOUT_MS'
+  | 'MAX_SESSION_MS'
+  | 'BACKEND_KEEPALIVE_INTERVAL_MS'
+  | 'RATE_LIMIT_UPGRADES_PER_MINUTE'
+  | 'RATE_LIMIT_MAX_CONNECTIONS'
+  | 'RATE_LIMIT_KEY'
+  | 'TRAFFIC_ACCOUNTING'
+  | 'TRAFFIC_DAILY_QUOTA_BYTES'
+  | 'TRAFFIC_MONTHLY_QUOTA_BYTES'
+  | 'BANDWIDTH_UPLOAD_BYTES_PER_SECOND'
+  | 'BANDWIDTH_DOWNLOAD_BYTES_PER_SECOND'
+  | 'BANDWIDTH_BURST_BYTES'
+  | 'BANDWIDTH_USERS';
+
+export interface RouteMatchSpec {
+  /** Exact hostname or `*.example.com` wildcard. */
+  host?: string;
+  pathPrefix?: string;
+  pathRegex?: string;
+  /** Header values that must match exactly; `*` only requires the header to be present. */
+  headers?: Record<string, string>;
+}
+
+export interface RouteRule {
+  name?: string;
+  match?: RouteMatchSpec;
+  transport?: TransportType;
+  /** Protocol carried by matching requests; skips sniffing and selects the edge terminator. */
+  protocol?: ProxyProtocol;
+  /** Backend list in BACKEND_URLS syntax, or an array of entries. */
+  backend?: string | string[];
+  strategy?: BackendStrategy;
+  /** New prefix replacing pathPrefix, or a replacement string for pathRegex. */
+  rewrite?: string;
+  /** Client access rules for matching requests, checked after the global and host policies. */
+  access?: ClientAccessPolicy;
+  options?: Partial<Record<RouteOptionKey, string>>;
+}
+
+export interface BackendTarget {
+  /** Stable identity used for selection state (normalized origin URL, or `service:NAME`). */
+  key: string;
+  url: URL;
+  weight: number;
+  /** Name of the Service Binding (Fetcher) dialed instead of the public URL. */
+  binding: string | null;
+}
+
+export type BackendFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export type BackendOutcome = 'success' | 'failure';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitRecord {
+  state: CircuitState;
+  /** Consecutive failures since the last success. */
+  failures: number;
+  openedAt: number;
+  lastFailureAt: number;
+  updatedAt: number;
+}
+
+/** Upgrade and connection counters of one rate-limit key. */
+export interface ClientLimitRecord {
+  windowStartedAt: number;
+  /** Upgrades admitted since `windowStartedAt`. */
+  upgrades: number;
+  /** Open connections by lease ID, each with the time its lease expires unless renewed. */
+  leases: Record<string, number>;
+}
+
+/** Bytes relayed for one user in one accounting window. */
+export interface TrafficCounters {
+  /** Client to backend. */
+  upload: number;
+  /** Backend to client. */
+  download: number;
+}
+
+/** A native XHTTP session opened by an inspected upload. */
+export interface XhttpSessionRecord {
+  /** User of the upload that opened the session, when its protocol names one. */
+  userId: string | null;
+  /** When the session is forgotten unless one of its requests is seen again. */
+  expiresAt: number;
+}
+
+export type ProbeKind = 'passthrough' | 'handshake';
+
+export interface ProbeResult {
+  /** Transport whose inbound path was probed, or null for the plain reachability probe. */
+  transport: TransportType | null;
+  kind: ProbeKind;
+  ok: boolean;
+  /** HTTP status from the backend, or 0 when the probe failed before a response. */
+  status: number;
+  latencyMs: number;
+}
+
+export interface BackendProbeRecord {
+  checkedAt: number;
+  healthy: boolean;
+  results: ProbeResult[];
+}
+
+/** `default` serves the built-in page, `none` disables it, a URL serves that page instead. */
+export type LandingSetting = 'default' | 'none' | (string & {});
+
+export interface HostProfile {
+  /** Backend list in BACKEND_URLS syntax, or an array of entries. */
+  backend?: string | string[];
+  strategy?: BackendStrategy;
+  /** Default transport for the host, like TRANSPORT. */
+  transport?: TransportType;
+  allowedTransports?: TransportType[];
+  /** Protocol carried by the host, like a routing rule's `protocol`. */
+  protocol?: ProxyProtocol;
+  landing?: LandingSetting;
+  /** Client access rules for the host, checked after the global policy. */
+  access?: ClientAccessPolicy;
+  options?: Partial<Record<RouteOptionKey, string>>;
+}
+
+export interface ClientAccessRules {
+  /** IPv4/IPv6 ranges in CIDR notation; bare addresses match a single client. */
+  cidrs?: string[];
+  /** ISO 3166-1 alpha-2 codes from `request.cf.country` (`T1` is Tor). */
+  countries?: string[];
+  asns?: number[];
+  /** IATA codes of Cloudflare data centers, from `request.cf.colo`. */
+  colos?: string[];
+}
+
+/** How a client denied by an access policy is answered. */
+export type AccessRejectBehaviour = 'decoy' | 'forbidden' | 'close';
+
+export interface ClientAccessPolicy {
+  /** Each non-empty list must match the client. */
+  allow?: ClientAccessRules;
+  /** Any matching entry denies the client; checked before `allow`. */
+  deny?: ClientAccessRules;
+  reject?: AccessRejectBehaviour;
+}
+
+export interface DestinationRuleSet {
+  ports?: number[];
+  /** Exact domains or `*.example.com` wildcards. */
+  domains?: string[];
+  /** IPv4/IPv6 ranges in CIDR notation; bare addresses match a single host. */
+  cidrs?: string[];
+}
+
+export interface DestinationRules {
+  /** Blocks private, loopback, link-local and other non-public ranges (default true). */
+  blockPrivate?: boolean;
+  /** Exceptions that win over every block rule. */
+  allow?: DestinationRuleSet;
+  block?: DestinationRuleSet;
+}
+
+export interface DestinationPolicy extends DestinationRules {
+  /** Per-user overrides keyed by user ID; lists are added to the global ones. */
+  users?: Record<string, DestinationRules>;
+}
+
+/** Bandwidth of one user in bytes per second; a missing field keeps the route's value and 0 lifts it. */
+export interface BandwidthUserLimits {
+  upload?: number;
+  download?: number;
+  burst?: number;
+}
+
+/** Backend list per sniffed protocol, in BACKEND_URLS syntax or as an array of entries. */
+export type ProtocolBackends = Partial<Record<ProxyProtocol, string | string[]>>;
+
+/** How a rejected client is treated: closed at once, closed after a random delay, or silently drained. */
+export type RejectBehaviour = 'drop' | 'delay' | 'decoy';
+
+export type InspectionVerdict =
+  | {
+      allowed: true;
+      /** Authenticated user, when the inspected protocol carries one. */
+      userId: string | null;
+    }
+  | {
+      allowed: false;
+      reason: string;
+      behaviour: RejectBehaviour;
+      /** WebSocket close reason sent to the client; defaults to `Unauthorized`. */
+      closeReason?: string;
+    };
+
 export type WebSocketPairTuple = [WebSocket, WebSocket];
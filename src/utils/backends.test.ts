@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BackendStrategy, Env } from '../types';
+import { parseBackendPool, selectBackend } from './backends';
+
+const request = new Request('https://proxy.example.com/vless');
+
+describe('parseBackendPool', () => {
+  it('reads URL and service entries with their weights', () => {
+    const pool = parseBackendPool({
+      BACKEND_URLS:
+        'https://a.example.com/ignored?x=1|3, service:ORIGIN@https://origin.internal\nservice:EDGE',
+    } as Env);
+
+    expect(
+      pool.map(({ key, url, weight, binding }) => ({ key, url: url.href, weight, binding })),
+    ).toEqual([
+      { key: 'https://a.example.com', url: 'https://a.example.com/', weight: 3, binding: null },
+      { key: 'service:ORIGIN', url: 'https://origin.internal/', weight: 1, binding: 'ORIGIN' },
+      { key: 'service:EDGE', url: 'http://edge/', weight: 1, binding: 'EDGE' },
+    ]);
+  });
+
+  it('rejects invalid weights and binding names', () => {
+    expect(() => parseBackendPool({ BACKEND_URLS: 'https://a.example.com|0' } as Env)).toThrow(
+      'weight must be an integer',
+    );
+    expect(() => parseBackendPool({ BACKEND_URLS: 'service:1ORIGIN' } as Env)).toThrow(
+      'invalid service binding name',
+    );
+  });
+});
+
+describe('selectBackend', () => {
+  const env = {
+    BACKEND_URLS: 'https://a.example.com,https://b.example.com,https://c.example.com',
+    BACKEND_STRATEGY: 'round-robin',
+  } as Env;
+
+  it('gives each backend `weight` consecutive round-robin turns', () => {
+    const weighted = { ...env, BACKEND_URLS: 'https://a.example.com|2,https://b.example.com' };
+    const picks = Array.from({ length: 6 }, () => selectBackend(request, weighted).key);
+
+    expect(picks.filter((key) => key === 'https://a.example.com')).toHaveLength(4);
+    expect(picks.filter((key) => key === 'https://b.example.com')).toHaveLength(2);
+  });
+
+  it('keeps one backend for an affinity key whatever the strategy', () => {
+    const strategies: BackendStrategy[] = [
+      'round-robin',
+      'weighted-random',
+      'least-recently-failed',
+      'hash-path',
+    ];
+
+    for (const strategy of strategies) {
+      const strategyEnv = { ...env, BACKEND_STRATEGY: strategy };
+      const picks = new Set(
+        ['/xhttp/session', '/xhttp/session/0', '/xhttp/session/1'].map(
+          (path) =>
+            selectBackend(request, strategyEnv, new URL(path, request.url), 'session-id').key,
+        ),
+      );
+
+      expect(picks.size).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,279 @@
+import { BACKEND_ORIGIN, DEFAULT_BACKEND_STRATEGY, SUPPORTED_BACKEND_STRATEGIES } from '../config';
+import type { BackendFetch, BackendStrategy, BackendTarget, Env } from '../types';
+import { getLastFailureAt, isBackendAllowed } from './circuit-breaker';
+
+const WEIGHT_SEPARATOR = '|';
+const SERVICE_PREFIX = 'service:';
+const SERVICE_URL_SEPARATOR = '@';
+const BINDING_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_BACKEND_WEIGHT = 1_000;
+
+// Isolate-local selection state. Each isolate balances independently, which is enough to spread load.
+const parsedPools = new Map<string, BackendTarget[]>();
+let roundRobinCursor = 0;
+
+function isBackendStrategy(value: string): value is BackendStrategy {
+  return (SUPPORTED_BACKEND_STRATEGIES as readonly string[]).includes(value);
+}
+
+function parseWeight(rawWeight: string, source: string): number {
+  if (rawWeight === '') {
+    return 1;
+  }
+
+  const weight = Number(rawWeight);
+
+  if (!Number.isInteger(weight) || weight < 1 || weight > MAX_BACKEND_WEIGHT) {
+    throw new Error(`${source} weight must be an integer between 1 and ${MAX_BACKEND_WEIGHT}.`);
+  }
+
+  return weight;
+}
+
+function parseUrl(rawUrl: string, source: string): URL {
+  let url: URL;
+
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error(`${source} is not a valid URL.`);
+  }
+
+  url.pathname = '/';
+  url.search = '';
+  url.hash = '';
+  return url;
+}
+
+/**
+ * `service:NAME` dials the Service Binding NAME. The URL the bound Worker/VPC service receives defaults
+ * to `http://name/` and can be set with `service:NAME@https://origin.internal`.
+ */
+function parseServiceEntry(spec: string, weight: number, source: string): BackendTarget {
+  const body = spec.slice(SERVICE_PREFIX.length);
+  const separatorIndex = body.indexOf(SERVICE_URL_SEPARATOR);
+  const binding = separatorIndex === -1 ? body : body.slice(0, separatorIndex);
+  const rawUrl = separatorIndex === -1 ? `http://${binding.toLowerCase()}/` : body.slice(separatorIndex + 1);
+
+  if (!BINDING_NAME_PATTERN.test(binding)) {
+    throw new Error(`${source} has an invalid service binding name.`);
+  }
+
+  return { key: `${SERVICE_PREFIX}${binding}`, url: parseUrl(rawUrl, source), weight, binding };
+}
+
+function parseBackendEntry(entry: string, source: string): BackendTarget {
+  const separatorIndex = entry.lastIndexOf(WEIGHT_SEPARATOR);
+  const spec = separatorIndex === -1 ? entry : entry.slice(0, separatorIndex).trim();
+  const weight = parseWeight(separatorIndex === -1 ? '' : entry.slice(separatorIndex + 1).trim(), source);
+
+  if (spec.startsWith(SERVICE_PREFIX)) {
+    return parseServiceEntry(spec, weight, source);
+  }
+
+  const url = parseUrl(spec, source);
+  return { key: url.origin, url, weight, binding: null };
+}
+
+/**
+ * Backend pool resolution order: BACKEND_URLS list, BACKEND_URL, then BACKEND_ORIGIN.
+ * BACKEND_URLS entries are comma/newline separated, each optionally suffixed with `|weight`.
+ */
+export function parseBackendPool(env: Env): BackendTarget[] {
+  const rawList = (env.BACKEND_URLS ?? '').trim();
+  const raw = rawList || (env.BACKEND_URL ?? BACKEND_ORIGIN).trim();
+  const cached = parsedPools.get(raw);
+
+  if (cached) {
+    return cached;
+  }
+
+  let pool: BackendTarget[];
+
+  if (rawList) {
+    const entries = rawList
+      .split(/[,\n]/)
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+
+    pool = entries.map((entry) => parseBackendEntry(entry, 'BACKEND_URLS entry'));
+  } else {
+    pool = [parseBackendEntry(raw, 'BACKEND_URL')];
+  }
+
+  if (pool.length === 0) {
+    throw new Error('BACKEND_URLS does not contain any backend.');
+  }
+
+  parsedPools.set(raw, pool);
+  return pool;
+}
+
+export function getBackendStrategy(env: Env): BackendStrategy {
+  const configured = (env.BACKEND_STRATEGY ?? '').toLowerCase();
+
+  if (isBackendStrategy(configured)) {
+    return configured;
+  }
+
+  return DEFAULT_BACKEND_STRATEGY;
+}
+
+function totalWeight(pool: readonly BackendTarget[]): number {
+  return pool.reduce((sum, backend) => sum + backend.weight, 0);
+}
+
+function pickByWeightOffset(pool: readonly BackendTarget[], offset: number): BackendTarget {
+  let remaining = offset;
+
+  for (const backend of pool) {
+    if (remaining < backend.weight) {
+      return backend;
+    }
+
+    remaining -= backend.weight;
+  }
+
+  return pool[pool.length - 1] as BackendTarget;
+}
+
+function pickRoundRobin(pool: readonly BackendTarget[]): BackendTarget {
+  const total = totalWeight(pool);
+  const offset = roundRobinCursor % total;
+  roundRobinCursor = (roundRobinCursor + 1) % Number.MAX_SAFE_INTEGER;
+  return pickByWeightOffset(pool, offset);
+}
+
+function pickWeightedRandom(pool: readonly BackendTarget[]): BackendTarget {
+  return pickByWeightOffset(pool, Math.floor(Math.random() * totalWeight(pool)));
+}
+
+function pickLeastRecentlyFailed(pool: readonly BackendTarget[]): BackendTarget {
+  let oldestFailure = Number.POSITIVE_INFINITY;
+  let candidates: BackendTarget[] = [];
+
+  for (const backend of pool) {
+    const failedAt = getLastFailureAt(backend);
+
+    if (failedAt < oldestFailure) {
+      oldestFailure = failedAt;
+      candidates = [backend];
+    } else if (failedAt === oldestFailure) {
+      candidates.push(backend);
+    }
+  }
+
+  return pickWeightedRandom(candidates);
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+// Weighted rendezvous hashing: adding or removing a backend only remaps the keys it owned.
+function pickConsistentHash(pool: readonly BackendTarget[], key: string): BackendTarget {
+  let best = pool[0] as BackendTarget;
+  let bestScore = Number.NEGATIVE_INFINITY;
+
+  for (const backend of pool) {
+    const unit = (fnv1a(`${backend.key}#${key}`) + 1) / 0x100000001;
+    const score = -backend.weight / Math.log(unit);
+
+    if (score > bestScore) {
+      best = backend;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/** Backends whose circuit is open are skipped; if every circuit is open the whole pool is used. */
+function getAvailablePool(env: Env): BackendTarget[] {
+  const pool = parseBackendPool(env);
+  const now = Date.now();
+  const available = pool.filter((backend) => isBackendAllowed(backend, env, now));
+
+  return available.length > 0 ? available : pool;
+}
+
+/**
+ * Picks the backend of a request with BACKEND_STRATEGY. An `affinityKey` overrides the strategy with a
+ * consistent hash of the key, for requests that must land where earlier requests with the same key did.
+ */
+export function selectBackend(
+  request: Request,
+  env: Env,
+  inbound: URL = new URL(request.url),
+  affinityKey: string | null = null,
+): BackendTarget {
+  const pool = getAvailablePool(env);
+
+  if (pool.length === 1) {
+    return pool[0] as BackendTarget;
+  }
+
+  if (affinityKey !== null) {
+    return pickConsistentHash(pool, affinityKey);
+  }
+
+  switch (getBackendStrategy(env)) {
+    case 'weighted-random':
+      return pickWeightedRandom(pool);
+    case 'least-recently-failed':
+      return pickLeastRecentlyFailed(pool);
+    case 'hash-ip':
+      return pickConsistentHash(pool, request.headers.get('CF-Connecting-IP') ?? '');
+    case 'hash-path':
+      return pickConsistentHash(pool, inbound.pathname);
+    case 'round-robin':
+    default:
+      return pickRoundRobin(pool);
+  }
+}
+
+function isFetcher(value: unknown): value is Fetcher {
+  return typeof value === 'object' && value !== null && typeof (value as Fetcher).fetch === 'function';
+}
+
+/** Fetch function used to reach a backend: global fetch for URLs, the bound Fetcher for service backends. */
+export function getBackendFetch(backend: BackendTarget, env: Env): BackendFetch {
+  if (!backend.binding) {
+    return fetch;
+  }
+
+  const binding = (env as unknown as Record<string, unknown>)[backend.binding];
+
+  if (!isFetcher(binding)) {
+    throw new Error(`Service binding ${backend.binding} is not configured.`);
+  }
+
+  return (input, init) => binding.fetch(input, init);
+}
+
+export function toBackendUrl(backend: BackendTarget, inbound: URL): URL {
+  const backendUrl = new URL(backend.url.toString());
+
+  // Preserve the user-requested path exactly (no Worker-side path injection).
+  backendUrl.pathname = inbound.pathname;
+  backendUrl.search = inbound.search;
+  return backendUrl;
+}
+
+/**
+ * Failover order for an upgrade: the selected backend first, then the rest of the available pool with
+ * the least recently failed backends tried earliest.
+ */
+export function getFailoverOrder(primary: BackendTarget, env: Env): BackendTarget[] {
+  const others = getAvailablePool(env).filter((backend) => backend.key !== primary.key);
+
+  others.sort((a, b) => getLastFailureAt(a) - getLastFailureAt(b));
+  return [primary, ...others];
+}
@@ -0,0 +1,168 @@
+import type { BandwidthUserLimits, Env } from '../types';
+import { parsePositiveInteger } from './env';
+import type { RelayDirection } from './socket';
+
+/** Rates of one connection in bytes per second; 0 leaves a direction unshaped. */
+export interface BandwidthLimits {
+  uploadBytesPerSecond: number;
+  downloadBytesPerSecond: number;
+  /** Bytes a direction may send at once after a quiet spell; 0 means one second of its rate. */
+  burstBytes: number;
+}
+
+export interface BandwidthShaper {
+  /** Resolves once `bytes` may be sent in `direction`. */
+  take(direction: RelayDirection, bytes: number): Promise<void>;
+  /** Ends every pending wait, so a closed relay does not sit out its backlog. */
+  dispose(): void;
+}
+
+export const NO_BANDWIDTH_LIMITS: BandwidthLimits = {
+  uploadBytesPerSecond: 0,
+  downloadBytesPerSecond: 0,
+  burstBytes: 0,
+};
+
+const USER_LIMIT_FIELDS = ['upload', 'download', 'burst'] as const;
+
+const parsedUserLimits = new Map<string, Map<string, BandwidthUserLimits>>();
+
+export function parseBandwidthUsers(source: string): Map<string, BandwidthUserLimits> {
+  const parsed = source ? (JSON.parse(source) as Record<string, BandwidthUserLimits>) : {};
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Bandwidth users must be a JSON object.');
+  }
+
+  const users = new Map<string, BandwidthUserLimits>();
+
+  for (const [userId, limits] of Object.entries(parsed)) {
+    if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+      throw new Error(`Bandwidth limits of user ${userId} must be a JSON object.`);
+    }
+
+    for (const field of USER_LIMIT_FIELDS) {
+      const value = limits[field];
+
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`Bandwidth ${field} of user ${userId} must be a non-negative integer.`);
+      }
+    }
+
+    users.set(userId.toLowerCase(), limits);
+  }
+
+  return users;
+}
+
+function getBandwidthUsers(env: Env): Map<string, BandwidthUserLimits> {
+  const source = (env.BANDWIDTH_USERS ?? '').trim();
+  const cached = parsedUserLimits.get(source);
+
+  if (cached) {
+    return cached;
+  }
+
+  const users = parseBandwidthUsers(source);
+  parsedUserLimits.set(source, users);
+  return users;
+}
+
+/** Limits of the (route-scoped) env, overridden by the BANDWIDTH_USERS entry of `userId`. */
+export function getBandwidthLimits(env: Env, userId: string | null = null): BandwidthLimits {
+  const limits: BandwidthLimits = {
+    uploadBytesPerSecond: parsePositiveInteger(env.BANDWIDTH_UPLOAD_BYTES_PER_SECOND, 0),
+    downloadBytesPerSecond: parsePositiveInteger(env.BANDWIDTH_DOWNLOAD_BYTES_PER_SECOND, 0),
+    burstBytes: parsePositiveInteger(env.BANDWIDTH_BURST_BYTES, 0),
+  };
+
+  if (!userId) {
+    return limits;
+  }
+
+  let user: BandwidthUserLimits | undefined;
+
+  try {
+    user = getBandwidthUsers(env).get(userId.toLowerCase());
+  } catch (error) {
+    // A broken user list must not cut connections off; the route limits still apply.
+    console.error('[bandwidth] invalid BANDWIDTH_USERS', error);
+    return limits;
+  }
+
+  if (!user) {
+    return limits;
+  }
+
+  return {
+    uploadBytesPerSecond: user.upload ?? limits.uploadBytesPerSecond,
+    downloadBytesPerSecond: user.download ?? limits.downloadBytesPerSecond,
+    burstBytes: user.burst ?? limits.burstBytes,
+  };
+}
+
+/**
+ * Token bucket returning how long a send of `bytes` has to wait. A send larger than the bucket is not
+ * split: it borrows against future tokens, and the wait covers the debt.
+ */
+function createTokenBucket(bytesPerSecond: number, burstBytes: number): (bytes: number) => number {
+  const capacity = burstBytes > 0 ? burstBytes : bytesPerSecond;
+  let tokens = capacity;
+  let refilledAt = Date.now();
+
+  return (bytes) => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) * bytesPerSecond) / 1000);
+    refilledAt = now;
+    tokens -= bytes;
+
+    return tokens >= 0 ? 0 : Math.ceil((-tokens * 1000) / bytesPerSecond);
+  };
+}
+
+/**
+ * Shapes both directions of a relay. Sends are delayed, never dropped: callers await `take` before each
+ * send, and the relay's per-direction send chain keeps later frames behind the one waiting.
+ */
+export function createBandwidthShaper(limits: BandwidthLimits): BandwidthShaper {
+  const buckets: Record<RelayDirection, ((bytes: number) => number) | null> = {
+    'client->backend':
+      limits.uploadBytesPerSecond > 0
+        ? createTokenBucket(limits.uploadBytesPerSecond, limits.burstBytes)
+        : null,
+    'backend->client':
+      limits.downloadBytesPerSecond > 0
+        ? createTokenBucket(limits.downloadBytesPerSecond, limits.burstBytes)
+        : null,
+  };
+  const waits = new Map<ReturnType<typeof setTimeout>, () => void>();
+  let disposed = false;
+
+  return {
+    take(direction, bytes) {
+      const delayMs = disposed ? 0 : (buckets[direction]?.(bytes) ?? 0);
+
+      if (delayMs === 0) {
+        return Promise.resolve();
+      }
+
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          waits.delete(timer);
+          resolve();
+        }, delayMs);
+        waits.set(timer, resolve);
+      });
+    },
+    dispose() {
+      disposed = true;
+
+      for (const [timer, resolve] of waits) {
+        clearTimeout(timer);
+        resolve();
+      }
+
+      waits.clear();
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { concatBytes } from './bytes';
+
+/** Request body read up to its first frame; the chunks read so far are replayed to the backend. */
+export interface BufferedBody {
+  /** Chunks read while looking for the first frame. */
+  chunks: Uint8Array[];
+  frame: Uint8Array;
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+}
+
+/** Length of the first frame at the start of `buffered`, or null while it is still incomplete. */
+export type FrameLength = (buffered: Uint8Array) => number | null;
+
+export const MAX_FIRST_FRAME_BYTES = 64 * 1024;
+
+/** The first frame of a stream without framing of its own is whatever the first chunk holds. */
+export const firstChunkLength: FrameLength = (buffered) =>
+  buffered.byteLength > 0 ? buffered.byteLength : null;
+
+/** Reads request body chunks until the first frame is complete. The body is cancelled on failure. */
+export async function readFirstFrame(
+  body: ReadableStream<Uint8Array>,
+  timeoutMs: number,
+  frameLength: FrameLength,
+): Promise<BufferedBody> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let buffered: Uint8Array = new Uint8Array(0);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error('Timed out waiting for the first request frame.'));
+    }, timeoutMs);
+  });
+
+  try {
+    for (;;) {
+      const length = frameLength(buffered);
+
+      if (length !== null && buffered.byteLength >= length) {
+        return { chunks, frame: buffered.subarray(0, length), reader };
+      }
+
+      if (buffered.byteLength > MAX_FIRST_FRAME_BYTES || (length ?? 0) > MAX_FIRST_FRAME_BYTES) {
+        throw new Error('First request frame is too large to inspect.');
+      }
+
+      const { done, value } = await Promise.race([reader.read(), timeout]);
+
+      if (done) {
+        throw new Error('Request body ended before the first frame.');
+      }
+
+      chunks.push(value);
+      buffered = concatBytes(...chunks);
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {
+      // Ignore cancel errors; the request is being rejected.
+    });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The whole body again: the buffered chunks first, then the rest of the stream. */
+export function replayBody(buffered: BufferedBody): ReadableStream<Uint8Array> {
+  const pending = [...buffered.chunks];
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = pending.shift();
+
+      if (next) {
+        controller.enqueue(next);
+        return;
+      }
+
+      const { done, value } = await buffered.reader.read();
+
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return buffered.reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,11 @@
+export function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+
+  return output;
+}
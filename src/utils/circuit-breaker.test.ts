@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CircuitRecord } from '../types';
+import type { CircuitSettings } from './circuit-breaker';
+import {
+  applyCircuitOutcome,
+  applyProbeOutcome,
+  circuitAllows,
+  responseOutcome,
+} from './circuit-breaker';
+
+const settings: CircuitSettings = { threshold: 3, cooldownMs: 30_000 };
+
+function fail(
+  record: CircuitRecord | undefined,
+  times: number,
+  now: number,
+): CircuitRecord | undefined {
+  let current = record;
+
+  for (let i = 0; i < times; i += 1) {
+    current = applyCircuitOutcome(current, 'failure', now, settings);
+  }
+
+  return current;
+}
+
+describe('applyCircuitOutcome', () => {
+  it('opens the circuit once consecutive failures reach the threshold', () => {
+    const belowThreshold = fail(undefined, 2, 1_000);
+
+    expect(belowThreshold).toMatchObject({ state: 'closed', failures: 2, lastFailureAt: 1_000 });
+    expect(applyCircuitOutcome(belowThreshold, 'failure', 2_000, settings)).toMatchObject({
+      state: 'open',
+      failures: 3,
+      openedAt: 2_000,
+    });
+  });
+
+  it('resets the failure count on success', () => {
+    const recovered = applyCircuitOutcome(fail(undefined, 2, 1_000), 'success', 2_000, settings);
+
+    expect(recovered).toMatchObject({ state: 'closed', failures: 0, lastFailureAt: 1_000 });
+    expect(fail(recovered, 2, 3_000)).toMatchObject({ state: 'closed', failures: 2 });
+  });
+
+  it('re-opens a half-open circuit on the first failure and closes it on success', () => {
+    const halfOpen: CircuitRecord = {
+      state: 'half-open',
+      failures: 3,
+      openedAt: 40_000,
+      lastFailureAt: 10_000,
+      updatedAt: 40_000,
+    };
+
+    expect(applyCircuitOutcome(halfOpen, 'failure', 41_000, settings)).toMatchObject({
+      state: 'open',
+      openedAt: 41_000,
+    });
+    expect(applyCircuitOutcome(halfOpen, 'success', 41_000, settings)).toMatchObject({
+      state: 'closed',
+      failures: 0,
+    });
+  });
+
+  it('counts a failed probe as one failure and lets a healthy probe close the circuit', () => {
+    const open = fail(undefined, 3, 1_000);
+
+    expect(applyProbeOutcome(undefined, false, 1_000, settings)).toMatchObject({
+      state: 'closed',
+      failures: 1,
+    });
+    expect(applyProbeOutcome(open, true, 2_000, settings)).toMatchObject({ state: 'closed' });
+  });
+});
+
+describe('circuitAllows', () => {
+  it('blocks an open circuit until the cooldown has elapsed', () => {
+    const open = fail(undefined, 3, 1_000);
+
+    expect(circuitAllows(undefined, 1_000, settings)).toBe(true);
+    expect(circuitAllows(open, 30_999, settings)).toBe(false);
+    expect(circuitAllows(open, 31_000, settings)).toBe(true);
+  });
+});
+
+describe('responseOutcome', () => {
+  it('counts only 5xx answers against the backend', () => {
+    expect([200, 101, 302, 400, 403, 404, 499, 500, 502, 503].map(responseOutcome)).toEqual([
+      'success',
+      'success',
+      'success',
+      'success',
+      'success',
+      'success',
+      'success',
+      'failure',
+      'failure',
+      'failure',
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { CIRCUIT_COOLDOWN_MS, CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_SYNC_INTERVAL_MS } from '../config';
+import type { BackendHealth } from '../state/backend-health';
+import type { BackendOutcome, BackendTarget, CircuitRecord, Env } from '../types';
+import { parsePositiveInteger } from './env';
+
+export interface CircuitSettings {
+  threshold: number;
+  cooldownMs: number;
+}
+
+const HEALTH_OBJECT_NAME = 'global';
+
+// Isolate-local mirror of the shared circuit state, refreshed from the Durable Object periodically.
+const circuits = new Map<string, CircuitRecord>();
+let lastSyncAt = 0;
+let pendingSync: Promise<void> | null = null;
+
+export function getCircuitSettings(env: Env): CircuitSettings {
+  return {
+    threshold: parsePositiveInteger(env.CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_FAILURE_THRESHOLD),
+    cooldownMs: parsePositiveInteger(env.CIRCUIT_COOLDOWN_MS, CIRCUIT_COOLDOWN_MS),
+  };
+}
+
+/**
+ * Circuit transitions:
+ * - closed: consecutive failures are counted, reaching the threshold opens the circuit.
+ * - open: no traffic until the cooldown elapses, then one trial runs in half-open.
+ * - half-open: a success closes the circuit, a failure re-opens it for another cooldown.
+ */
+export function applyCircuitOutcome(
+  record: CircuitRecord | undefined,
+  outcome: BackendOutcome,
+  now: number,
+  settings: CircuitSettings,
+): CircuitRecord {
+  const current: CircuitRecord = record ?? {
+    state: 'closed',
+    failures: 0,
+    openedAt: 0,
+    lastFailureAt: 0,
+    updatedAt: 0,
+  };
+
+  if (outcome === 'success') {
+    return { ...current, state: 'closed', failures: 0, openedAt: 0, updatedAt: now };
+  }
+
+  const failures = current.failures + 1;
+  const shouldOpen = current.state !== 'closed' || failures >= settings.threshold;
+
+  return {
+    state: shouldOpen ? 'open' : 'closed',
+    failures,
+    openedAt: shouldOpen ? now : current.openedAt,
+    lastFailureAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * A failed probe counts as one failure towards the threshold, like a failed upgrade, so a single lost
+ * probe does not take a backend out of rotation. A healthy probe closes the circuit.
+ */
+export function applyProbeOutcome(
+  record: CircuitRecord | undefined,
+  healthy: boolean,
+  now: number,
+  settings: CircuitSettings,
+): CircuitRecord {
+  return applyCircuitOutcome(record, healthy ? 'success' : 'failure', now, settings);
+}
+
+/**
+ * Outcome of a backend's HTTP answer. Only 5xx counts against the backend; other statuses, 4xx included,
+ * come from a working backend answering the client's request.
+ */
+export function responseOutcome(status: number): BackendOutcome {
+  return status >= 500 ? 'failure' : 'success';
+}
+
+export function circuitAllows(record: CircuitRecord | undefined, now: number, settings: CircuitSettings): boolean {
+  if (!record || record.state === 'closed') {
+    return true;
+  }
+
+  // Open circuits admit a trial after the cooldown; a half-open trial that never reported is retried.
+  return now - record.openedAt >= settings.cooldownMs;
+}
+
+export function isBackendAllowed(backend: BackendTarget, env: Env, now = Date.now()): boolean {
+  return circuitAllows(circuits.get(backend.key), now, getCircuitSettings(env));
+}
+
+export function getLastFailureAt(backend: BackendTarget): number {
+  return circuits.get(backend.key)?.lastFailureAt ?? 0;
+}
+
+/** Marks an open circuit as half-open so the isolate sends a single trial until it reports back. */
+export function beginCircuitTrial(backend: BackendTarget, env: Env, now = Date.now()): void {
+  const record = circuits.get(backend.key);
+
+  if (record && record.state !== 'closed' && circuitAllows(record, now, getCircuitSettings(env))) {
+    circuits.set(backend.key, { ...record, state: 'half-open', openedAt: now, updatedAt: now });
+  }
+}
+
+function mergeRecord(key: string, incoming: CircuitRecord): void {
+  const local = circuits.get(key);
+
+  if (!local || incoming.updatedAt >= local.updatedAt) {
+    circuits.set(key, incoming);
+  }
+}
+
+export function getHealthStub(env: Env): DurableObjectStub<BackendHealth> | null {
+  if (!env.BACKEND_HEALTH) {
+    return null;
+  }
+
+  return env.BACKEND_HEALTH.get(env.BACKEND_HEALTH.idFromName(HEALTH_OBJECT_NAME));
+}
+
+/**
+ * Records the outcome of a backend upgrade/passthrough locally and, when the BACKEND_HEALTH Durable
+ * Object is bound, shares it with every other isolate. Successes are only reported when they change state.
+ */
+export function reportBackendOutcome(
+  env: Env,
+  ctx: ExecutionContext,
+  backend: BackendTarget,
+  outcome: BackendOutcome,
+): void {
+  const now = Date.now();
+  const previous = circuits.get(backend.key);
+  const next = applyCircuitOutcome(previous, outcome, now, getCircuitSettings(env));
+  circuits.set(backend.key, next);
+
+  if (outcome === 'success' && (!previous || (previous.state === 'closed' && previous.failures === 0))) {
+    return;
+  }
+
+  const stub = getHealthStub(env);
+
+  if (!stub) {
+    return;
+  }
+
+  ctx.waitUntil(
+    stub
+      .report(backend.key, outcome, now)
+      .then((record) => {
+        mergeRecord(backend.key, record);
+      })
+      .catch(() => {
+        // Shared state is best-effort; the local mirror already holds this outcome.
+      }),
+  );
+}
+
+/** Refreshes the local mirror from the shared Durable Object at most once per sync interval. */
+export async function syncCircuitState(env: Env): Promise<void> {
+  const stub = getHealthStub(env);
+
+  if (!stub || Date.now() - lastSyncAt < CIRCUIT_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  if (!pendingSync) {
+    pendingSync = stub
+      .snapshot()
+      .then((snapshot) => {
+        for (const [key, record] of Object.entries(snapshot)) {
+          mergeRecord(key, record);
+        }
+      })
+      .finally(() => {
+        lastSyncAt = Date.now();
+        pendingSync = null;
+      });
+  }
+
+  await pendingSync;
+}
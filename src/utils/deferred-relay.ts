@@ -0,0 +1,225 @@
+import { readFrameUserId } from '../inspection';
+import type { InspectionVerdict, RejectBehaviour } from '../types';
+import type { UpgradeDialResult } from './failover';
+import type { ClientFrameQueue } from './frames';
+import { toBytes } from './frames';
+import type { ConnectionLimiter } from './rate-limit';
+import type { RawUpgradeDialResult } from './raw-upgrade';
+import type { RelayPolicy } from './relay-policy';
+import type { RelayDirection, RelayHandle } from './socket';
+import { bridgeSockets, safeClose } from './socket';
+import { bridgeWebSocketToTcp } from './tcp';
+import { delayRejection } from './timing';
+
+export interface DeferredRelayOptions {
+  workerSocket: WebSocket;
+  /** Captures client frames from the moment the socket was accepted. */
+  clientQueue: ClientFrameQueue;
+  logPrefix: string;
+  debugEnabled: boolean;
+  firstFrameTimeoutMs: number;
+  /** First client frame when it already arrived as early data. */
+  earlyData?: Uint8Array | null;
+  inspect: (firstFrame: Uint8Array) => Promise<InspectionVerdict>;
+  dial: (firstFrame: Uint8Array) => Promise<BackendDialResult>;
+  onRelayError: (direction: RelayDirection, error: unknown) => void;
+  /** Relay settings for the user of the first frame, or for the route when none can be named. */
+  relayPolicy: (userId: string | null) => RelayPolicy;
+  /** Counts the connection against the client limits; released when the relay ends. */
+  limiter: ConnectionLimiter;
+}
+
+const DECOY_HOLD_MS = 30_000;
+
+/**
+ * Closes a rejected client. `delay` waits a random interval first so rejections cannot be timed, and
+ * `decoy` keeps the connection open and discards client data, like a server that ignores bad requests.
+ */
+export async function rejectClient(
+  socket: WebSocket,
+  behaviour: RejectBehaviour,
+  closeReason = 'Unauthorized',
+): Promise<void> {
+  if (behaviour === 'delay') {
+    await delayRejection();
+  } else if (behaviour === 'decoy') {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, DECOY_HOLD_MS);
+      const finish = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      socket.addEventListener('close', finish);
+      socket.addEventListener('error', finish);
+    });
+    safeClose(socket, 1000, 'Normal closure');
+    return;
+  }
+
+  safeClose(socket, 1008, closeReason);
+}
+
+export type BackendDialResult = UpgradeDialResult | RawUpgradeDialResult;
+
+/**
+ * Bridges the client to a connected backend, delivering `earlyData` and the queued client frames ahead
+ * of the live relay. When the client closed meanwhile the backend connection is closed and null returned.
+ */
+export function bridgeDialedBackend(
+  workerSocket: WebSocket,
+  queue: ClientFrameQueue,
+  dialResult: Extract<BackendDialResult, { ok: true }>,
+  earlyData: Uint8Array | null,
+  onRelayError: (direction: RelayDirection, error: unknown) => void,
+  relayPolicy: RelayPolicy,
+): RelayHandle | null {
+  if ('tcpSocket' in dialResult) {
+    const { tcpSocket, initialData } = dialResult;
+    const pendingFrames = earlyData ? [earlyData, ...queue.drain()] : queue.drain();
+
+    if (queue.isClosed()) {
+      tcpSocket.close().catch(() => {
+        // Ignore close errors; the client is already gone.
+      });
+      return null;
+    }
+
+    if (initialData.byteLength > 0) {
+      workerSocket.send(initialData);
+    }
+
+    return bridgeWebSocketToTcp(workerSocket, tcpSocket, onRelayError, pendingFrames, null, relayPolicy);
+  }
+
+  const backendSocket = dialResult.webSocket;
+  backendSocket.accept();
+
+  const pendingFrames = earlyData ? [earlyData, ...queue.drain()] : queue.drain();
+
+  if (queue.isClosed()) {
+    safeClose(backendSocket, 1000, 'Client closed connection');
+    return null;
+  }
+
+  return bridgeSockets(workerSocket, backendSocket, onRelayError, pendingFrames, relayPolicy);
+}
+
+async function openDeferredRelay(options: DeferredRelayOptions): Promise<RelayHandle | null> {
+  const { workerSocket, logPrefix, debugEnabled, clientQueue: queue } = options;
+  const earlyData = options.earlyData ?? null;
+  let firstFrame: Uint8Array | null = earlyData;
+
+  if (!firstFrame) {
+    try {
+      firstFrame = await toBytes(await queue.first(options.firstFrameTimeoutMs));
+    } catch (error) {
+      queue.drain();
+      safeClose(workerSocket, 1008, 'No client data');
+
+      if (debugEnabled) {
+        console.log(logPrefix, 'first frame not received', { error });
+      }
+
+      return null;
+    }
+  }
+
+  if (!firstFrame) {
+    queue.drain();
+    safeClose(workerSocket, 1003, 'Unsupported data');
+    return null;
+  }
+
+  let verdict: InspectionVerdict;
+
+  try {
+    verdict = await options.inspect(firstFrame);
+  } catch (error) {
+    // A failing lookup (e.g. USERS_KV) must not leave the client socket and its queue open.
+    queue.drain();
+    safeClose(workerSocket, 1011, 'Inspection failed');
+
+    if (debugEnabled) {
+      console.error(logPrefix, 'first frame inspection error', error);
+    }
+
+    return null;
+  }
+
+  if (!verdict.allowed) {
+    queue.drain();
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'client rejected before dialing backend', {
+        reason: verdict.reason,
+        behaviour: verdict.behaviour,
+      });
+    }
+
+    await rejectClient(workerSocket, verdict.behaviour, verdict.closeReason);
+    return null;
+  }
+
+  const userId = verdict.userId ?? readFrameUserId(firstFrame);
+  const limitReason = await options.limiter.admit(userId, firstFrame);
+
+  if (limitReason) {
+    queue.drain();
+
+    if (debugEnabled) {
+      console.log(logPrefix, 'client over its limits', {
+        reason: limitReason,
+        userId,
+      });
+    }
+
+    safeClose(workerSocket, 1013, limitReason);
+    return null;
+  }
+
+  const relayPolicy = options.relayPolicy(userId);
+  let dialResult: BackendDialResult;
+
+  try {
+    dialResult = await options.dial(firstFrame);
+  } catch (error) {
+    queue.drain();
+    safeClose(workerSocket, 1011, 'Backend connection failed');
+
+    if (debugEnabled) {
+      console.error(logPrefix, 'backend dial error', error);
+    }
+
+    return null;
+  }
+
+  if (!dialResult.ok) {
+    queue.drain();
+    // The client is already upgraded, so a backend rejection can only be reported as a close reason.
+    await dialResult.rejection?.body?.cancel();
+    safeClose(workerSocket, 1011, dialResult.closeReason);
+    return null;
+  }
+
+  return bridgeDialedBackend(workerSocket, queue, dialResult, earlyData, options.onRelayError, relayPolicy);
+}
+
+/**
+ * Upgrade path for edge-side inspection: the client is already upgraded, its first frame is read and
+ * inspected, and only an accepted client within its limits gets a backend connection. Frames that
+ * arrive meanwhile are queued and delivered ahead of the live relay.
+ */
+export async function relayAfterFirstFrame(options: DeferredRelayOptions): Promise<void> {
+  let relay: RelayHandle | null = null;
+
+  try {
+    relay = await openDeferredRelay(options);
+  } finally {
+    if (relay) {
+      options.limiter.track(relay);
+    } else {
+      options.limiter.release();
+    }
+  }
+}
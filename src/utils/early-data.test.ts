@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_EARLY_DATA_BYTES, parseEarlyDataHint, readEarlyData } from './early-data';
+
+function hint(url: string): { maxBytes: number; url: string } {
+  const parsed = parseEarlyDataHint(new URL(url));
+  return { maxBytes: parsed.maxBytes, url: parsed.url.toString() };
+}
+
+function withProtocol(value: string): Request {
+  return new Request('https://proxy.example.com/ws', {
+    headers: { 'Sec-WebSocket-Protocol': value },
+  });
+}
+
+describe('parseEarlyDataHint', () => {
+  it('reads and removes the hint from the query', () => {
+    expect(hint('https://proxy.example.com/ws?ed=2048&x=1')).toEqual({
+      maxBytes: 2048,
+      url: 'https://proxy.example.com/ws?x=1',
+    });
+  });
+
+  it('reads and removes the percent-encoded path form', () => {
+    expect(hint('https://proxy.example.com/ws%3Fed%3D2048')).toEqual({
+      maxBytes: 2048,
+      url: 'https://proxy.example.com/ws',
+    });
+    expect(hint('https://proxy.example.com/%3fed%3d512')).toEqual({
+      maxBytes: 512,
+      url: 'https://proxy.example.com/',
+    });
+  });
+
+  it('caps large hints and rejects invalid ones', () => {
+    expect(hint('https://proxy.example.com/ws?ed=1000000').maxBytes).toBe(MAX_EARLY_DATA_BYTES);
+    expect(() => hint('https://proxy.example.com/ws?ed=-1')).toThrow('non-negative integer');
+    expect(() => hint('https://proxy.example.com/ws%3Fed%3Dabc')).toThrow('non-negative integer');
+  });
+});
+
+describe('readEarlyData', () => {
+  it('decodes a base64url token without padding', () => {
+    // "hello?>" in base64url uses both of its substitute characters.
+    const earlyData = readEarlyData(withProtocol('aGVsbG8_Pg, chat'), 64);
+
+    expect(new TextDecoder().decode(earlyData?.bytes)).toBe('hello?>');
+    expect(earlyData?.protocol).toBe('aGVsbG8_Pg');
+  });
+
+  it('ignores the header without a hint, above the hinted size, or holding a subprotocol', () => {
+    expect(readEarlyData(withProtocol('aGVsbG8'), 0)).toBeNull();
+    expect(readEarlyData(withProtocol('aGVsbG8'), 4)).toBeNull();
+    expect(readEarlyData(withProtocol('chat.v1'), 64)).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * WebSocket early data: Xray and sing-box clients can send the first client frame base64url-encoded in
+ * `Sec-WebSocket-Protocol`, sized by the `ed` hint of the request URL. The Worker delivers that payload
+ * as the first frame itself, so the backend gets an ordinary handshake.
+ */
+
+export const EARLY_DATA_HEADER = 'sec-websocket-protocol';
+export const MAX_EARLY_DATA_BYTES = 64 * 1024;
+
+// Clients that take `/path?ed=2048` as a plain path send the hint percent-encoded in the path itself.
+const PATH_HINT_PATTERN = /%3Fed%3D([^/]*)$/i;
+
+export interface EarlyData {
+  /** Decoded first client frame. */
+  bytes: Uint8Array;
+  /** Subprotocol token the data arrived in; echoed back so the client accepts the handshake. */
+  protocol: string;
+}
+
+export interface EarlyDataHint {
+  /** Maximum early-data size the client announced, 0 when early data is off. */
+  maxBytes: number;
+  /** Request URL with the `ed` hint removed, in either form, for forwarding to the backend. */
+  url: URL;
+}
+
+function parseHintValue(raw: string): number {
+  const parsed = Number(raw);
+
+  if (raw === '' || !Number.isFinite(parsed) || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error('Invalid early-data hint. The ed query parameter must be a non-negative integer.');
+  }
+
+  return Math.min(parsed, MAX_EARLY_DATA_BYTES);
+}
+
+/** Reads the `ed` hint from the query (`?ed=2048`) or the encoded path form (`/path%3Fed%3D2048`). */
+export function parseEarlyDataHint(url: URL): EarlyDataHint {
+  const normalized = new URL(url.toString());
+  const pathMatch = PATH_HINT_PATTERN.exec(normalized.pathname);
+  let maxBytes = 0;
+
+  if (pathMatch) {
+    maxBytes = parseHintValue(decodeURIComponent(pathMatch[1] ?? ''));
+    normalized.pathname = normalized.pathname.slice(0, pathMatch.index) || '/';
+  }
+
+  const fromQuery = normalized.searchParams.get('ed');
+
+  if (fromQuery !== null) {
+    maxBytes = parseHintValue(fromQuery);
+    normalized.searchParams.delete('ed');
+  }
+
+  return { maxBytes, url: normalized };
+}
+
+function isLikelyBase64UrlToken(value: string): boolean {
+  return value.length > 0 && /^[A-Za-z0-9_-]+$/.test(value);
+}
+
+function decodeBase64UrlToUint8Array(base64Url: string): Uint8Array {
+  const normalized = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  const paddingNeeded = (4 - (normalized.length % 4)) % 4;
+  const padded = normalized + '='.repeat(paddingNeeded);
+  const binary = atob(padded);
+  const output = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i += 1) {
+    output[i] = binary.charCodeAt(i);
+  }
+
+  return output;
+}
+
+/** Early data carried in `Sec-WebSocket-Protocol`, or null when the header holds a regular subprotocol. */
+export function readEarlyData(request: Request, maxBytes: number): EarlyData | null {
+  if (maxBytes <= 0) {
+    return null;
+  }
+
+  const rawHeader = request.headers.get(EARLY_DATA_HEADER);
+
+  if (!rawHeader) {
+    return null;
+  }
+
+  const token = rawHeader.split(',')[0]?.trim();
+
+  if (!token || !isLikelyBase64UrlToken(token)) {
+    return null;
+  }
+
+  try {
+    const decoded = decodeBase64UrlToUint8Array(token);
+
+    if (decoded.byteLength === 0 || decoded.byteLength > maxBytes) {
+      return null;
+    }
+
+    return { bytes: decoded, protocol: token };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 101 response for the client, carrying the filtered backend handshake headers when the backend answered
+ * first. The early-data token is echoed as the selected subprotocol.
+ */
+export function upgradeResponse(
+  clientSocket: WebSocket,
+  earlyData: EarlyData | null,
+  headers: Headers = new Headers(),
+): Response {
+  if (earlyData) {
+    headers.set(EARLY_DATA_HEADER, earlyData.protocol);
+  }
+
+  return new Response(null, {
+    status: 101,
+    webSocket: clientSocket,
+    headers,
+  });
+}
@@ -0,0 +1,21 @@
+import { SUPPORTED_PROTOCOLS, SUPPORTED_TRANSPORTS } from '../config';
+import type { ProxyProtocol, TransportType } from '../types';
+
+export function parsePositiveInteger(raw: string | undefined, fallback: number): number {
+  const trimmed = (raw ?? '').trim();
+  const parsed = Number(trimmed);
+
+  if (trimmed === '' || !Number.isInteger(parsed) || parsed <= 0) {
+    return fallback;
+  }
+
+  return parsed;
+}
+
+export function isTransportType(value: string): value is TransportType {
+  return (SUPPORTED_TRANSPORTS as readonly string[]).includes(value);
+}
+
+export function isProxyProtocol(value: string): value is ProxyProtocol {
+  return (SUPPORTED_PROTOCOLS as readonly string[]).includes(value);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BackendTarget, Env } from '../types';
+import { parseBackendPool } from './backends';
+import { getLastFailureAt } from './circuit-breaker';
+import type { UpgradeDialResult } from './failover';
+import { dialUpgradeWithFailover } from './failover';
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+interface FakeBackend {
+  fetcher: Fetcher;
+  /** Number of upgrade attempts the backend received. */
+  attempts: number;
+}
+
+function createFakeBackend(answer: () => Response): FakeBackend {
+  const backend: FakeBackend = {
+    attempts: 0,
+    fetcher: {
+      fetch: () => {
+        backend.attempts += 1;
+
+        try {
+          return Promise.resolve(answer());
+        } catch (error) {
+          return Promise.reject(error as Error);
+        }
+      },
+    } as unknown as Fetcher,
+  };
+
+  return backend;
+}
+
+function upgraded(): Response {
+  const [client] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+/** Env with a two-backend pool; names are unique per test so circuit state does not leak between them. */
+function createEnv(name: string, first: FakeBackend, second: FakeBackend): Env {
+  return {
+    BACKEND_URLS: `service:${name}_FIRST,service:${name}_SECOND`,
+    [`${name}_FIRST`]: first.fetcher,
+    [`${name}_SECOND`]: second.fetcher,
+  } as unknown as Env;
+}
+
+function dial(env: Env): Promise<UpgradeDialResult> {
+  const [primary] = parseBackendPool(env) as [BackendTarget];
+
+  return dialUpgradeWithFailover(
+    primary,
+    env,
+    ctx,
+    new URL('https://proxy.example.com/vless'),
+    { method: 'GET', headers: { Upgrade: 'websocket' } },
+    () => {},
+  );
+}
+
+describe('dialUpgradeWithFailover', () => {
+  it('returns a 4xx answer to the client without failing over or counting a failure', async () => {
+    const first = createFakeBackend(() => new Response('no such path', { status: 404 }));
+    const second = createFakeBackend(upgraded);
+    const env = createEnv('CLIENT_ERROR', first, second);
+
+    const result = await dial(env);
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? null : result.rejection?.status).toBe(404);
+    expect(second.attempts).toBe(0);
+    expect(parseBackendPool(env).map((backend) => getLastFailureAt(backend))).toEqual([0, 0]);
+  });
+
+  it('fails over on a 5xx answer and counts it against the backend', async () => {
+    const first = createFakeBackend(() => new Response('down', { status: 503 }));
+    const second = createFakeBackend(upgraded);
+    const env = createEnv('SERVER_ERROR', first, second);
+
+    const result = await dial(env);
+
+    expect(result.ok).toBe(true);
+    expect(second.attempts).toBe(1);
+    expect(parseBackendPool(env).map((backend) => getLastFailureAt(backend) > 0)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it('fails over when a backend cannot be reached', async () => {
+    const first = createFakeBackend(() => {
+      throw new Error('connection refused');
+    });
+    const second = createFakeBackend(upgraded);
+
+    const result = await dial(createEnv('UNREACHABLE', first, second));
+
+    expect(result.ok).toBe(true);
+    expect([first.attempts, second.attempts]).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { BackendTarget, Env } from '../types';
+import { getBackendFetch, getFailoverOrder, toBackendUrl } from './backends';
+import { beginCircuitTrial, reportBackendOutcome, responseOutcome } from './circuit-breaker';
+import { parsePositiveInteger } from './env';
+import {
+  BACKEND_FAILOVER_DEADLINE_MS,
+  BACKEND_UPGRADE_TIMEOUT_MS,
+  fetchWithTimeout,
+  isAbortError,
+} from './fetch';
+
+export interface UpgradeDialFailure {
+  ok: false;
+  message: string;
+  closeReason: string;
+  /** The last backend's non-101 answer, when the final attempt was rejected rather than unreachable. */
+  rejection: Response | null;
+}
+
+export type UpgradeDialResult =
+  | {
+      ok: true;
+      backend: BackendTarget;
+      backendUrl: URL;
+      webSocket: WebSocket;
+      /** Headers of the backend's 101 response. */
+      headers: Headers;
+    }
+  | UpgradeDialFailure;
+
+export type UpgradeAttemptFailure = (backend: BackendTarget, backendUrl: URL, reason: string, error?: unknown) => void;
+
+/** Replaces the pending failure, releasing the body of a rejection that will not be passed on. */
+export async function replaceDialFailure(
+  previous: UpgradeDialFailure,
+  next: UpgradeDialFailure,
+): Promise<UpgradeDialFailure> {
+  if (previous.rejection && previous.rejection !== next.rejection) {
+    await previous.rejection.body?.cancel();
+  }
+
+  return next;
+}
+
+/**
+ * Dials the backend upgrade, moving on to the next backend in the pool when an attempt times out, fails
+ * to connect or is answered with a 5xx. Any other answer is the backend's reply to this client and is
+ * returned at once. Each attempt gets its own budget, bounded by a total deadline.
+ */
+export async function dialUpgradeWithFailover(
+  primary: BackendTarget,
+  env: Env,
+  ctx: ExecutionContext,
+  inbound: URL,
+  init: RequestInit,
+  onAttemptFailure: UpgradeAttemptFailure,
+): Promise<UpgradeDialResult> {
+  const attemptTimeoutMs = parsePositiveInteger(env.BACKEND_ATTEMPT_TIMEOUT_MS, BACKEND_UPGRADE_TIMEOUT_MS);
+  const deadlineMs = parsePositiveInteger(env.BACKEND_FAILOVER_DEADLINE_MS, BACKEND_FAILOVER_DEADLINE_MS);
+  const startedAt = Date.now();
+  let failure: UpgradeDialFailure = {
+    ok: false,
+    message: 'Backend upgrade timed out.',
+    closeReason: 'Unable to connect to backend',
+    rejection: null,
+  };
+
+  for (const backend of getFailoverOrder(primary, env)) {
+    const remainingMs = deadlineMs - (Date.now() - startedAt);
+
+    if (remainingMs <= 0) {
+      break;
+    }
+
+    const backendUrl = toBackendUrl(backend, inbound);
+    beginCircuitTrial(backend, env);
+
+    try {
+      const backendResponse = await fetchWithTimeout(
+        backendUrl.toString(),
+        init,
+        Math.min(attemptTimeoutMs, remainingMs),
+        getBackendFetch(backend, env),
+      );
+
+      if (backendResponse.status === 101 && backendResponse.webSocket) {
+        reportBackendOutcome(env, ctx, backend, 'success');
+        await failure.rejection?.body?.cancel();
+        return {
+          ok: true,
+          backend,
+          backendUrl,
+          webSocket: backendResponse.webSocket,
+          headers: backendResponse.headers,
+        };
+      }
+
+      // A 101 without a socket cannot be replayed to the client.
+      const replayable = backendResponse.status !== 101;
+
+      if (!replayable) {
+        await backendResponse.body?.cancel();
+      }
+
+      const outcome = replayable ? responseOutcome(backendResponse.status) : 'failure';
+      reportBackendOutcome(env, ctx, backend, outcome);
+      onAttemptFailure(backend, backendUrl, `rejected (${backendResponse.status})`);
+      failure = await replaceDialFailure(failure, {
+        ok: false,
+        message: `Backend failed to upgrade connection (status ${backendResponse.status}).`,
+        closeReason: `Backend upgrade rejected (${backendResponse.status})`,
+        rejection: replayable ? backendResponse : null,
+      });
+
+      // The other backends would answer the client's request the same way.
+      if (outcome === 'success') {
+        return failure;
+      }
+    } catch (error) {
+      reportBackendOutcome(env, ctx, backend, 'failure');
+
+      if (isAbortError(error)) {
+        onAttemptFailure(backend, backendUrl, 'timed out');
+        failure = await replaceDialFailure(failure, {
+          ok: false,
+          message: 'Backend upgrade timed out.',
+          closeReason: 'Unable to connect to backend',
+          rejection: null,
+        });
+      } else {
+        onAttemptFailure(backend, backendUrl, 'connection error', error);
+        failure = await replaceDialFailure(failure, {
+          ok: false,
+          message: 'Unable to connect to backend service.',
+          closeReason: 'Unable to connect to backend',
+          rejection: null,
+        });
+      }
+    }
+  }
+
+  return failure;
+}
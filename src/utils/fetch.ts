@@ -1,10 +1,17 @@
+import type { BackendFetch } from '../types';
+
 export const BACKEND_UPGRADE_TIMEOUT_MS = 5_000;
 export const BACKEND_PASSTHROUGH_TIMEOUT_MS = 15_000;
+export const BACKEND_FAILOVER_DEADLINE_MS = 12_000;
+export const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+export const FIRST_FRAME_TIMEOUT_MS = 10_000;
+export const LANDING_FETCH_TIMEOUT_MS = 5_000;
 
 export async function fetchWithTimeout(
   input: RequestInfo | URL,
   init: RequestInit,
   timeoutMs: number,
+  fetcher: BackendFetch = fetch,
 ): Promise<Response> {
   const controller = new AbortController();
   const timer = setTimeout(() => {
@@ -12,7 +19,7 @@ export async function fetchWithTimeout(
   }, timeoutMs);
 
   try {
-    return await fetch(input, {
+    return await fetcher(input, {
       ...init,
       signal: controller.signal,
     });
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FlowControlOptions } from './flow-control';
+import { createFlowGate, getFlowControlOptions } from './flow-control';
+import type { RelayDirection } from './socket';
+
+const options: FlowControlOptions = {
+  highWatermarkBytes: 100,
+  lowWatermarkBytes: 40,
+  stallTimeoutMs: 1_000,
+};
+
+describe('createFlowGate', () => {
+  let stalls: [RelayDirection, number][];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stalls = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createGate() {
+    return createFlowGate('client->backend', options, (direction, bufferedBytes) => {
+      stalls.push([direction, bufferedBytes]);
+    });
+  }
+
+  it('reports a backlog that stays above the high watermark for the stall timeout', () => {
+    const gate = createGate();
+
+    gate.add(100);
+    vi.advanceTimersByTime(5_000);
+    expect(stalls).toEqual([]);
+
+    gate.add(1);
+    vi.advanceTimersByTime(999);
+    gate.add(20);
+    vi.advanceTimersByTime(1);
+    expect(stalls).toEqual([['client->backend', 121]]);
+  });
+
+  it('clears the stall only once the backlog drops to the low watermark', () => {
+    const hovering = createGate();
+    const draining = createGate();
+
+    hovering.add(150);
+    hovering.release(60);
+    draining.add(150);
+    draining.release(110);
+    vi.advanceTimersByTime(1_000);
+
+    expect(stalls).toEqual([['client->backend', 90]]);
+  });
+
+  it('stops the stall timer when disposed', () => {
+    const gate = createGate();
+
+    gate.add(200);
+    gate.dispose();
+    vi.advanceTimersByTime(1_000);
+    expect(stalls).toEqual([]);
+  });
+});
+
+describe('getFlowControlOptions', () => {
+  it('keeps the low watermark at or below the high one', () => {
+    expect(
+      getFlowControlOptions({
+        RELAY_HIGH_WATERMARK_BYTES: '1000',
+        RELAY_LOW_WATERMARK_BYTES: '5000',
+        RELAY_STALL_TIMEOUT_MS: '250',
+      }),
+    ).toEqual({ highWatermarkBytes: 1000, lowWatermarkBytes: 1000, stallTimeoutMs: 250 });
+  });
+});
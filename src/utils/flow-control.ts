@@ -0,0 +1,85 @@
+import type { Env } from '../types';
+import { parsePositiveInteger } from './env';
+import type { RelayDirection } from './socket';
+
+export const RELAY_HIGH_WATERMARK_BYTES = 4 * 1024 * 1024;
+export const RELAY_LOW_WATERMARK_BYTES = 1024 * 1024;
+export const RELAY_STALL_TIMEOUT_MS = 30_000;
+
+export interface FlowControlOptions {
+  highWatermarkBytes: number;
+  lowWatermarkBytes: number;
+  /** How long a backlog may stay above the low watermark after crossing the high one. */
+  stallTimeoutMs: number;
+}
+
+export interface FlowGate {
+  /** Counts bytes accepted from the source but not yet handed to the destination. */
+  add(bytes: number): void;
+  release(bytes: number): void;
+  dispose(): void;
+}
+
+export const DEFAULT_FLOW_CONTROL: FlowControlOptions = {
+  highWatermarkBytes: RELAY_HIGH_WATERMARK_BYTES,
+  lowWatermarkBytes: RELAY_LOW_WATERMARK_BYTES,
+  stallTimeoutMs: RELAY_STALL_TIMEOUT_MS,
+};
+
+export function getFlowControlOptions(env: Env): FlowControlOptions {
+  const highWatermarkBytes = parsePositiveInteger(env.RELAY_HIGH_WATERMARK_BYTES, RELAY_HIGH_WATERMARK_BYTES);
+  const lowWatermarkBytes = parsePositiveInteger(env.RELAY_LOW_WATERMARK_BYTES, RELAY_LOW_WATERMARK_BYTES);
+
+  return {
+    highWatermarkBytes,
+    // A low watermark above the high one would let a stall clear without the backlog shrinking.
+    lowWatermarkBytes: Math.min(lowWatermarkBytes, highWatermarkBytes),
+    stallTimeoutMs: parsePositiveInteger(env.RELAY_STALL_TIMEOUT_MS, RELAY_STALL_TIMEOUT_MS),
+  };
+}
+
+/**
+ * Tracks the backlog of one relay direction. Crossing the high watermark starts the stall timer and only
+ * dropping back to the low watermark clears it, so a backlog hovering around one limit does not flap.
+ * `onStall` runs when the backlog stays high for `stallTimeoutMs`.
+ */
+export function createFlowGate(
+  direction: RelayDirection,
+  options: FlowControlOptions,
+  onStall: (direction: RelayDirection, bufferedBytes: number) => void,
+): FlowGate {
+  let bufferedBytes = 0;
+  let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const clearStall = (): void => {
+    clearTimeout(stallTimer);
+    stallTimer = undefined;
+  };
+
+  return {
+    add(bytes) {
+      bufferedBytes += bytes;
+
+      if (stallTimer === undefined && bufferedBytes > options.highWatermarkBytes) {
+        stallTimer = setTimeout(() => {
+          onStall(direction, bufferedBytes);
+        }, options.stallTimeoutMs);
+      }
+    },
+    release(bytes) {
+      bufferedBytes = Math.max(0, bufferedBytes - bytes);
+
+      if (bufferedBytes <= options.lowWatermarkBytes) {
+        clearStall();
+      }
+    },
+    dispose() {
+      clearStall();
+    },
+  };
+}
+
+/** Close reason naming the side that stopped consuming. */
+export function stallCloseReason(direction: RelayDirection): string {
+  return direction === 'client->backend' ? 'Backend stalled' : 'Client stalled';
+}
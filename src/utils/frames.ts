@@ -0,0 +1,115 @@
+import type { WebSocketPayload } from './socket';
+import { payloadByteLength, safeClose } from './socket';
+
+/** Default cap on client bytes held while the backend is not connected yet. */
+export const CLIENT_BUFFER_MAX_BYTES = 1024 * 1024;
+
+export interface ClientFrameQueue {
+  /** Resolves with the first client frame; rejects if the client closes or stays silent too long. */
+  first(timeoutMs: number): Promise<WebSocketPayload>;
+  /** Stops capturing and hands over every frame received so far, in arrival order. */
+  drain(): WebSocketPayload[];
+  /** True when the client closed or errored, or was closed for exceeding the byte limit. */
+  isClosed(): boolean;
+}
+
+/**
+ * Captures client frames on an accepted socket until a bridge takes over. A client that sends more
+ * than `maxBytes` meanwhile is closed with 1009, and the queue reports it as closed.
+ */
+export function createClientFrameQueue(
+  socket: WebSocket,
+  maxBytes = CLIENT_BUFFER_MAX_BYTES,
+): ClientFrameQueue {
+  const frames: WebSocketPayload[] = [];
+  let bufferedBytes = 0;
+  let closed = false;
+  let notify: (() => void) | null = null;
+
+  const onMessage = (event: MessageEvent): void => {
+    if (closed) {
+      return;
+    }
+
+    const payload = event.data as WebSocketPayload;
+    bufferedBytes += payloadByteLength(payload);
+
+    if (bufferedBytes > maxBytes) {
+      closed = true;
+      safeClose(socket, 1009, 'Client buffer limit exceeded');
+    } else {
+      frames.push(payload);
+    }
+
+    notify?.();
+  };
+
+  const onClose = (): void => {
+    closed = true;
+    notify?.();
+  };
+
+  socket.addEventListener('message', onMessage);
+  socket.addEventListener('close', onClose);
+  socket.addEventListener('error', onClose);
+
+  return {
+    first(timeoutMs) {
+      const firstFrame = frames[0];
+
+      if (firstFrame !== undefined) {
+        return Promise.resolve(firstFrame);
+      }
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          notify = null;
+          reject(new Error('Timed out waiting for the first client frame.'));
+        }, timeoutMs);
+
+        notify = () => {
+          const frame = frames[0];
+
+          if (frame === undefined && !closed) {
+            return;
+          }
+
+          clearTimeout(timer);
+          notify = null;
+
+          if (frame === undefined) {
+            reject(new Error('Client closed before sending data.'));
+          } else {
+            resolve(frame);
+          }
+        };
+      });
+    },
+    drain() {
+      socket.removeEventListener('message', onMessage);
+      socket.removeEventListener('close', onClose);
+      socket.removeEventListener('error', onClose);
+      return frames.splice(0, frames.length);
+    },
+    isClosed() {
+      return closed;
+    },
+  };
+}
+
+/** Binary view of a frame; text frames are not valid for the binary proxy protocols. */
+export async function toBytes(payload: WebSocketPayload): Promise<Uint8Array | null> {
+  if (typeof payload === 'string') {
+    return null;
+  }
+
+  if (payload instanceof Blob) {
+    return new Uint8Array(await payload.arrayBuffer());
+  }
+
+  if (payload instanceof ArrayBuffer) {
+    return new Uint8Array(payload);
+  }
+
+  return new Uint8Array(payload.buffer, payload.byteOffset, payload.byteLength);
+}
@@ -0,0 +1,64 @@
+import type { Env } from '../types';
+
+// The runtime writes its own framing headers for the client handshake; copying the backend's would break it.
+const RUNTIME_HANDSHAKE_HEADERS = new Set([
+  'connection',
+  'upgrade',
+  'keep-alive',
+  'sec-websocket-accept',
+  'sec-websocket-extensions',
+  'content-length',
+  'transfer-encoding',
+]);
+
+const parsedHeaderLists = new Map<string, Set<string>>();
+
+function parseHeaderList(raw: string): Set<string> {
+  const cached = parsedHeaderLists.get(raw);
+
+  if (cached) {
+    return cached;
+  }
+
+  const names = new Set<string>();
+
+  for (const entry of raw.split(/[,\s]+/)) {
+    if (entry) {
+      names.add(entry.toLowerCase());
+    }
+  }
+
+  parsedHeaderLists.set(raw, names);
+  return names;
+}
+
+/**
+ * Backend handshake headers that may reach the client. HANDSHAKE_HEADERS_ALLOW, when set, limits the
+ * forwarded names; HANDSHAKE_HEADERS_DENY removes names on top of the framing headers the runtime owns.
+ */
+export function filterHandshakeHeaders(env: Env, source: Headers): Headers {
+  const allow = env.HANDSHAKE_HEADERS_ALLOW ? parseHeaderList(env.HANDSHAKE_HEADERS_ALLOW) : null;
+  const deny = parseHeaderList(env.HANDSHAKE_HEADERS_DENY ?? '');
+  const headers = new Headers();
+
+  source.forEach((value, name) => {
+    const key = name.toLowerCase();
+
+    if (RUNTIME_HANDSHAKE_HEADERS.has(key) || deny.has(key) || (allow && !allow.has(key))) {
+      return;
+    }
+
+    headers.append(name, value);
+  });
+
+  return headers;
+}
+
+/** Hands a backend's non-101 answer to the client with its status and body intact. */
+export function toRejectionResponse(env: Env, rejection: Response): Response {
+  return new Response(rejection.body, {
+    status: rejection.status,
+    statusText: rejection.statusText,
+    headers: filterHandshakeHeaders(env, rejection.headers),
+  });
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createHttpBodyRelay } from './http-relay';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+
+      controller.close();
+    },
+  });
+}
+
+describe('createHttpBodyRelay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts the bytes of both bodies and closes once they have ended', async () => {
+    const relay = createHttpBodyRelay();
+    let closed = false;
+    void relay.closed.then(() => {
+      closed = true;
+    });
+
+    const upload = relay.upload(streamOf('ping', 'ping'));
+    const download = relay.download(streamOf('pong'));
+
+    expect(await new Response(upload).text()).toBe('pingping');
+    expect(closed).toBe(false);
+    expect(await new Response(download).text()).toBe('pong');
+    await relay.closed;
+    expect(relay.bytes).toEqual({ 'client->backend': 8, 'backend->client': 4 });
+  });
+
+  it('closes at once when there is no body to relay', async () => {
+    const relay = createHttpBodyRelay();
+
+    expect(relay.upload(null)).toBeNull();
+    expect(relay.download(null)).toBeNull();
+    await relay.closed;
+    expect(relay.bytes).toEqual({ 'client->backend': 0, 'backend->client': 0 });
+  });
+
+  it('passes chunks on no faster than the bandwidth limit', async () => {
+    vi.useFakeTimers();
+    const relay = createHttpBodyRelay({
+      uploadBytesPerSecond: 0,
+      downloadBytesPerSecond: 40,
+      burstBytes: 4,
+    });
+    let text: string | null = null;
+
+    void new Response(relay.download(streamOf('pong', 'pong', 'pong'))).text().then((body) => {
+      text = body;
+    });
+
+    // The burst covers the first chunk; the other two wait 100ms each.
+    await vi.advanceTimersByTimeAsync(199);
+    expect(text).toBeNull();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(text).toBe('pongpongpong');
+  });
+
+  it('errors open bodies when closed', async () => {
+    const relay = createHttpBodyRelay();
+    const download = relay.download(new ReadableStream<Uint8Array>());
+
+    relay.close(1008, 'Quota exceeded');
+
+    await expect(new Response(download).text()).rejects.toThrow('Quota exceeded (1008)');
+    await relay.closed;
+  });
+});
@@ -0,0 +1,246 @@
+import type { BandwidthLimits } from './bandwidth';
+import { createBandwidthShaper, NO_BANDWIDTH_LIMITS } from './bandwidth';
+import type { RelayDirection, RelayHandle } from './socket';
+
+/**
+ * Relay handle over the bodies of a streamed HTTP exchange (a gRPC tunnel or a native XHTTP request), so
+ * the limiter can meter it like a bridged socket. Upload bytes are counted as the backend reads the
+ * request body, download bytes as the client reads the response body. Each chunk is passed on once
+ * `bandwidth` allows it and the next is read only then, so a shaped body slows down its sender.
+ * `close` errors both bodies.
+ */
+export interface HttpBodyRelay extends RelayHandle {
+  /** Wraps the request body; call it before `download`. */
+  upload(body: ReadableStream<Uint8Array> | null): ReadableStream<Uint8Array> | null;
+  /** Wraps the response body. The relay closes once every wrapped body has ended. */
+  download(body: ReadableStream<Uint8Array> | null): ReadableStream<Uint8Array> | null;
+}
+
+export function createHttpBodyRelay(
+  bandwidth: BandwidthLimits = NO_BANDWIDTH_LIMITS,
+): HttpBodyRelay {
+  const shaper = createBandwidthShaper(bandwidth);
+  const bytes: Record<RelayDirection, number> = { 'client->backend': 0, 'backend->client': 0 };
+  const open = new Map<
+    ReadableStreamDefaultController<Uint8Array>,
+    ReadableStreamDefaultReader<Uint8Array>
+  >();
+  let downloadWrapped = false;
+  let closed = false;
+  let resolveClosed: () => void = () => {};
+  const relayClosed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const settle = (): void => {
+    closed = true;
+    shaper.dispose();
+    resolveClosed();
+  };
+
+  const finish = (controller: ReadableStreamDefaultController<Uint8Array>): void => {
+    open.delete(controller);
+
+    if (downloadWrapped && open.size === 0 && !closed) {
+      settle();
+    }
+  };
+
+  const wrap = (
+    direction: RelayDirection,
+    body: ReadableStream<Uint8Array> | null,
+  ): ReadableStream<Uint8Array> | null => {
+    if (!body || closed) {
+      return body;
+    }
+
+    const reader = body.getReader();
+    let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        streamController = controller;
+        open.set(controller, reader);
+      },
+      async pull(controller) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+
+        try {
+          result = await reader.read();
+        } catch (error) {
+          finish(controller);
+          controller.error(error);
+          return;
+        }
+
+        if (result.done) {
+          finish(controller);
+          controller.close();
+          return;
+        }
+
+        await shaper.take(direction, result.value.byteLength);
+
+        if (!open.has(controller)) {
+          // The body was closed or cancelled while the chunk waited for bandwidth.
+          return;
+        }
+
+        bytes[direction] += result.value.byteLength;
+        controller.enqueue(result.value);
+      },
+      cancel(reason) {
+        if (streamController) {
+          finish(streamController);
+        }
+
+        return reader.cancel(reason);
+      },
+    });
+  };
+
+  return {
+    closed: relayClosed,
+    bytes,
+    upload: (body) => wrap('client->backend', body),
+    download: (body) => {
+      downloadWrapped = true;
+      const wrapped = wrap('backend->client', body);
+
+      if (open.size === 0 && !closed) {
+        settle();
+      }
+
+      return wrapped;
+    },
+    close(code, reason) {
+      if (closed) {
+        return;
+      }
+
+      for (const [controller, reader] of open) {
+        controller.error(new Error(`${reason} (${code})`));
+        reader.cancel(reason).catch(() => {
+          // Ignore cancel errors; the body is being abandoned.
+        });
+      }
+
+      open.clear();
+      settle();
+    },
+  };
+}
+
+/**
+ * One relay over the requests of a packet-up XHTTP session, so the session is metered with one status read
+ * and one report per interval instead of one per POST. Its bytes are those of every request that joined,
+ * and it closes once no request has been open for `idleMs`. `close` closes the open requests.
+ */
+export interface RelayGroup extends RelayHandle {
+  /**
+   * Adds the relay of a request, or returns false once the group has closed. `ctx` is held open until a
+   * later request joins or the group closes, so the last report always has a live request to run in.
+   */
+  join(relay: RelayHandle, ctx: ExecutionContext): boolean;
+  /** Hands `waitUntil` work to the request currently holding the group open. */
+  ctx: ExecutionContext;
+}
+
+export function createRelayGroup(idleMs: number): RelayGroup {
+  const members = new Set<RelayHandle>();
+  const retired: Record<RelayDirection, number> = { 'client->backend': 0, 'backend->client': 0 };
+  let holder: ExecutionContext | null = null;
+  let releaseHolder: () => void = () => {};
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let resolveClosed: () => void = () => {};
+  const relayClosed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const total = (direction: RelayDirection): number => {
+    let sum = retired[direction];
+
+    for (const member of members) {
+      sum += member.bytes[direction];
+    }
+
+    return sum;
+  };
+
+  const settle = (): void => {
+    closed = true;
+
+    if (idleTimer !== null) {
+      clearTimeout(idleTimer);
+    }
+
+    resolveClosed();
+    // Let the final report register with the holder before it is let go.
+    setTimeout(releaseHolder, 0);
+  };
+
+  const waitIdle = (): void => {
+    idleTimer = setTimeout(settle, idleMs);
+  };
+
+  waitIdle();
+
+  return {
+    closed: relayClosed,
+    bytes: {
+      get 'client->backend'() {
+        return total('client->backend');
+      },
+      get 'backend->client'() {
+        return total('backend->client');
+      },
+    },
+    ctx: {
+      waitUntil: (promise: Promise<unknown>) => holder?.waitUntil(promise),
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext,
+    join(relay, ctx) {
+      if (closed) {
+        return false;
+      }
+
+      if (idleTimer !== null) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+      }
+
+      members.add(relay);
+      releaseHolder();
+      holder = ctx;
+      ctx.waitUntil(
+        new Promise<void>((resolve) => {
+          releaseHolder = resolve;
+        }),
+      );
+
+      void relay.closed.then(() => {
+        members.delete(relay);
+        retired['client->backend'] += relay.bytes['client->backend'];
+        retired['backend->client'] += relay.bytes['backend->client'];
+
+        if (members.size === 0 && !closed) {
+          waitIdle();
+        }
+      });
+
+      return true;
+    },
+    close(code, reason) {
+      if (closed) {
+        return;
+      }
+
+      for (const member of members) {
+        member.close(code, reason);
+      }
+
+      settle();
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { cidrContains, parseCidr, parseIpAddress } from './ip';
+
+function contains(cidr: string, address: string): boolean {
+  const parsed = parseIpAddress(address);
+
+  if (!parsed) {
+    throw new Error(`test address ${address} does not parse`);
+  }
+
+  return cidrContains(parseCidr(cidr), parsed);
+}
+
+describe('parseIpAddress', () => {
+  it('parses IPv4, compressed and bracketed IPv6, and embedded IPv4', () => {
+    expect(parseIpAddress('198.51.100.7')).toEqual({ version: 4, value: 0xc6336407n });
+    expect(parseIpAddress('[2001:db8::1]')).toEqual({
+      version: 6,
+      value: 0x20010db8000000000000000000000001n,
+    });
+    expect(parseIpAddress('::')).toEqual({ version: 6, value: 0n });
+    expect(parseIpAddress('64:ff9b::198.51.100.7')?.value).toBe(
+      0x0064ff9b0000000000000000c6336407n,
+    );
+  });
+
+  it('turns IPv4-mapped IPv6 addresses into IPv4', () => {
+    expect(parseIpAddress('::ffff:198.51.100.7')).toEqual(parseIpAddress('198.51.100.7'));
+    expect(parseIpAddress('::ffff:c633:6407')).toEqual(parseIpAddress('198.51.100.7'));
+  });
+
+  it('rejects malformed addresses', () => {
+    for (const text of [
+      '',
+      '198.51.100',
+      '198.51.100.256',
+      '198.51.100.07.1',
+      '1.2.3.+4',
+      '2001:db8::1::2',
+      '2001:db8:0:0:0:0:0:0:1',
+      '2001:db8:0:0:0:0:1',
+      '::1.2.3.4:5',
+      '12345::',
+      'example.com',
+    ]) {
+      expect(parseIpAddress(text), text).toBeNull();
+    }
+  });
+});
+
+describe('parseCidr', () => {
+  it('masks host bits and treats a bare address as a single host', () => {
+    expect(parseCidr('10.1.2.3/8')).toEqual({ version: 4, network: 0x0a000000n, prefix: 8 });
+    expect(parseCidr(' 2001:db8::1 ')).toMatchObject({ version: 6, prefix: 128 });
+  });
+
+  it('rejects invalid addresses and prefixes', () => {
+    expect(() => parseCidr('10.0.0/8')).toThrow('Invalid CIDR "10.0.0/8"');
+    expect(() => parseCidr('10.0.0.0/8/1')).toThrow('Invalid CIDR "10.0.0.0/8/1"');
+
+    for (const text of [
+      '10.0.0.0/',
+      '10.0.0.0/33',
+      '10.0.0.0/-1',
+      '10.0.0.0/8.5',
+      '::/129',
+      '::/0x10',
+    ]) {
+      expect(() => parseCidr(text), text).toThrow('Invalid CIDR prefix');
+    }
+  });
+
+  it('matches IPv4-mapped ranges as IPv4', () => {
+    expect(parseCidr('::ffff:192.0.2.0/120')).toEqual(parseCidr('192.0.2.0/24'));
+    expect(() => parseCidr('::ffff:192.0.2.0/64')).toThrow('Invalid CIDR prefix');
+  });
+});
+
+describe('cidrContains', () => {
+  it('matches addresses on the prefix boundary only', () => {
+    expect(contains('192.0.2.0/25', '192.0.2.127')).toBe(true);
+    expect(contains('192.0.2.0/25', '192.0.2.128')).toBe(false);
+    expect(contains('2001:db8::/32', '2001:db8:ffff::1')).toBe(true);
+    expect(contains('2001:db8::/32', '2001:db9::1')).toBe(false);
+  });
+
+  it('matches everything of one family with a zero prefix', () => {
+    expect(contains('0.0.0.0/0', '203.0.113.9')).toBe(true);
+    expect(contains('::/0', '2001:db8::1')).toBe(true);
+    expect(contains('::/0', '203.0.113.9')).toBe(false);
+  });
+
+  it('matches IPv4-mapped clients against IPv4 ranges', () => {
+    expect(contains('198.51.100.0/24', '::ffff:198.51.100.7')).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+export interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface CidrRange {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+const IPV4_MAPPED_PREFIX = 0xffffn;
+
+function parseIpv4(text: string): bigint | null {
+  const parts = text.split('.');
+
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0n;
+
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+      return null;
+    }
+
+    value = (value << 8n) | BigInt(part);
+  }
+
+  return value;
+}
+
+function parseIpv6Groups(text: string): bigint[] | null {
+  if (text === '') {
+    return [];
+  }
+
+  const groups: bigint[] = [];
+  const parts = text.split(':');
+
+  for (const [index, part] of parts.entries()) {
+    // An embedded IPv4 address may only appear as the last two groups.
+    if (index === parts.length - 1 && part.includes('.')) {
+      const ipv4 = parseIpv4(part);
+
+      if (ipv4 === null) {
+        return null;
+      }
+
+      groups.push(ipv4 >> 16n, ipv4 & 0xffffn);
+      continue;
+    }
+
+    if (!/^[0-9a-f]{1,4}$/i.test(part)) {
+      return null;
+    }
+
+    groups.push(BigInt(`0x${part}`));
+  }
+
+  return groups;
+}
+
+function parseIpv6(text: string): bigint | null {
+  const halves = text.split('::');
+
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = parseIpv6Groups(halves[0] ?? '');
+  const tail = halves.length === 2 ? parseIpv6Groups(halves[1] ?? '') : [];
+
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<bigint>(halves.length === 2 ? missing : 0).fill(0n), ...tail];
+  return groups.reduce((value, group) => (value << 16n) | group, 0n);
+}
+
+/** Parses an IPv4 or (optionally bracketed) IPv6 literal; IPv4-mapped IPv6 addresses become IPv4. */
+export function parseIpAddress(text: string): IpAddress | null {
+  const host = text.startsWith('[') && text.endsWith(']') ? text.slice(1, -1) : text;
+
+  if (!host.includes(':')) {
+    const value = parseIpv4(host);
+    return value === null ? null : { version: 4, value };
+  }
+
+  const value = parseIpv6(host);
+
+  if (value === null) {
+    return null;
+  }
+
+  if (value >> 32n === IPV4_MAPPED_PREFIX) {
+    return { version: 4, value: value & 0xffffffffn };
+  }
+
+  return { version: 6, value };
+}
+
+/** Parses `address/prefix`; a bare address is a single-host range. Throws on invalid input. */
+export function parseCidr(text: string): CidrRange {
+  const [rawAddress = '', rawPrefix, ...rest] = text.trim().split('/');
+  const address = parseIpAddress(rawAddress);
+
+  if (!address || rest.length > 0) {
+    throw new Error(`Invalid CIDR "${text}".`);
+  }
+
+  const bits = address.version === 4 ? IPV4_BITS : IPV6_BITS;
+  // An IPv4-mapped range such as ::ffff:192.0.2.0/120 is matched as the IPv4 range under its last 32 bits.
+  const mappedBits = address.version === 4 && rawAddress.includes(':') ? IPV6_BITS - IPV4_BITS : 0;
+  const prefix = rawPrefix === undefined ? bits : Number(rawPrefix) - mappedBits;
+
+  // Only plain digits: Number('') is 0, which would turn `10.0.0.0/` into a range matching everything.
+  if ((rawPrefix !== undefined && !/^\d{1,3}$/.test(rawPrefix)) || prefix < 0 || prefix > bits) {
+    throw new Error(`Invalid CIDR prefix in "${text}".`);
+  }
+
+  const shift = BigInt(bits - prefix);
+  return { version: address.version, network: (address.value >> shift) << shift, prefix };
+}
+
+export function cidrContains(range: CidrRange, address: IpAddress): boolean {
+  if (range.version !== address.version) {
+    return false;
+  }
+
+  const shift = BigInt((range.version === 4 ? IPV4_BITS : IPV6_BITS) - range.prefix);
+  return address.value >> shift === range.network >> shift;
+}
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { ClientLimitRecord, Env } from '../types';
+import type { RateLimitSettings } from './rate-limit';
+import type { RelayDirection, RelayHandle } from './socket';
+import type { TrafficQuotas } from './traffic';
+import { EMPTY_TRAFFIC, getTrafficStatus } from './traffic';
+import {
+  applyAdmission,
+  CONNECTION_LEASE_TTL_MS,
+  limitHttpRequest,
+  limitUpgrade,
+  RATE_LIMIT_WINDOW_MS,
+  releaseLease,
+  renewLease,
+} from './rate-limit';
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+/** Admits `leaseIds` in order and returns the final record with the decision of each. */
+function admitAll(
+  record: ClientLimitRecord | undefined,
+  settings: RateLimitSettings,
+  leaseIds: (string | null)[],
+  now: number,
+) {
+  let current = record;
+  const allowed: boolean[] = [];
+
+  for (const leaseId of leaseIds) {
+    const admission = applyAdmission(current, settings, leaseId, now);
+    current = admission.record;
+    allowed.push(admission.decision.allowed);
+  }
+
+  return { record: current, allowed };
+}
+
+describe('applyAdmission', () => {
+  it('counts upgrades in fixed one-minute windows', () => {
+    const settings = { upgradesPerMinute: 2, maxConnections: 0 };
+    const { record, allowed } = admitAll(undefined, settings, [null, null, null], 1_000);
+
+    expect(allowed).toEqual([true, true, false]);
+    expect(applyAdmission(record, settings, null, 31_000).decision).toEqual({
+      allowed: false,
+      reason: 'Too many upgrades',
+      retryAfterMs: 30_000,
+    });
+    expect(applyAdmission(record, settings, null, 1_000 + RATE_LIMIT_WINDOW_MS).decision).toEqual({
+      allowed: true,
+    });
+  });
+
+  it('caps the connections holding a lease and does not count rejected upgrades', () => {
+    const settings = { upgradesPerMinute: 0, maxConnections: 2 };
+    const { record, allowed } = admitAll(undefined, settings, ['a', 'b', 'c'], 1_000);
+
+    expect(allowed).toEqual([true, true, false]);
+    expect(Object.keys(record?.leases ?? {})).toEqual(['a', 'b']);
+    expect(record?.upgrades).toBe(2);
+  });
+});
+
+describe('connection leases', () => {
+  const settings = { upgradesPerMinute: 0, maxConnections: 1 };
+  const { record: held } = admitAll(undefined, settings, ['a'], 0);
+
+  it('frees the slot when the lease is released', () => {
+    expect(applyAdmission(held, settings, 'b', 1_000).decision.allowed).toBe(false);
+    expect(applyAdmission(releaseLease(held, 'a'), settings, 'b', 1_000).decision.allowed).toBe(
+      true,
+    );
+  });
+
+  it('frees the slot of a lease that expires without renewal', () => {
+    expect(applyAdmission(held, settings, 'b', CONNECTION_LEASE_TTL_MS).decision.allowed).toBe(
+      true,
+    );
+  });
+
+  it('keeps a renewed lease past its first expiry', () => {
+    const renewed = renewLease(held, 'a', 60_000);
+
+    expect(applyAdmission(renewed, settings, 'b', CONNECTION_LEASE_TTL_MS).decision.allowed).toBe(
+      false,
+    );
+    expect(renewLease(held, 'unknown', 60_000)).toBe(held);
+    expect(releaseLease(held, 'unknown')).toBe(held);
+  });
+});
+
+describe('limitUpgrade', () => {
+  it('refuses a client over its connection cap until a connection is released', async () => {
+    const env = { RATE_LIMIT_MAX_CONNECTIONS: '1' } as Env;
+    const request = new Request('https://proxy.example.com/ws', {
+      headers: { 'CF-Connecting-IP': '198.51.100.7' },
+    });
+    const upgrade = () =>
+      limitUpgrade(request, env, ctx, { firstFrame: null, readsFirstFrame: false });
+
+    const first = await upgrade();
+    const second = await upgrade();
+    first.release();
+    const third = await upgrade();
+    third.release();
+
+    expect([first.rejection, second.rejection?.reason, third.rejection]).toEqual([
+      null,
+      'Too many connections',
+      null,
+    ]);
+  });
+});
+
+describe('limitHttpRequest', () => {
+  interface TrafficCall {
+    tag: string;
+    method: 'status' | 'record';
+    bytes?: [number, number];
+  }
+
+  /** TRAFFIC_USAGE whose objects log their calls and report usage of `used` bytes. */
+  function createTrafficUsage(calls: TrafficCall[], used = 0) {
+    const usage = { ...EMPTY_TRAFFIC, upload: used };
+    const status = (quotas: TrafficQuotas, now: number) =>
+      getTrafficStatus(usage, usage, quotas, now);
+
+    return {
+      idFromName: (tag: string) => tag,
+      get: (tag: string) => ({
+        status: (quotas: TrafficQuotas, now: number) => {
+          calls.push({ tag, method: 'status' });
+          return Promise.resolve(status(quotas, now));
+        },
+        record: (upload: number, download: number, quotas: TrafficQuotas, now: number) => {
+          calls.push({ tag, method: 'record', bytes: [upload, download] });
+          return Promise.resolve(status(quotas, now));
+        },
+      }),
+    };
+  }
+
+  function createRelay(upload: number, download: number) {
+    let finish: () => void = () => {};
+    const relay: RelayHandle = {
+      closed: new Promise<void>((resolve) => {
+        finish = resolve;
+      }),
+      bytes: { 'client->backend': upload, 'backend->client': download } as Record<
+        RelayDirection,
+        number
+      >,
+      close: () => finish(),
+    };
+
+    return { relay, finish: () => finish() };
+  }
+
+  const request = new Request('https://proxy.example.com/xhttp/session');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('never checks or refuses a route against the user quotas', async () => {
+    const calls: TrafficCall[] = [];
+    const env = {
+      TRAFFIC_USAGE: createTrafficUsage(calls, 100),
+      TRAFFIC_DAILY_QUOTA_BYTES: '10',
+      ROUTE_NAME: 'edge',
+    } as unknown as Env;
+
+    const route = await limitHttpRequest(request, env, ctx, null);
+    const user = await limitHttpRequest(request, env, ctx, 'alice');
+
+    expect(route.rejection).toBeNull();
+    expect(user.rejection?.reason).toBe('Quota exceeded');
+    expect(calls).toEqual([{ tag: 'user:alice', method: 'status' }]);
+  });
+
+  it('meters the requests of a session with one status read and one report', async () => {
+    vi.useFakeTimers();
+    const calls: TrafficCall[] = [];
+    const env = {
+      TRAFFIC_USAGE: createTrafficUsage(calls),
+      TRAFFIC_DAILY_QUOTA_BYTES: '1000000',
+    } as unknown as Env;
+    const held: Promise<unknown>[] = [];
+    const requestCtx = {
+      waitUntil: (promise: Promise<unknown>) => held.push(promise),
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext;
+    const sessionId = crypto.randomUUID();
+    const download = createRelay(0, 40);
+    const packets = [createRelay(5, 0), createRelay(7, 0)];
+
+    (await limitHttpRequest(request, env, requestCtx, 'bob', sessionId)).track(download.relay);
+
+    for (const packet of packets) {
+      (await limitHttpRequest(request, env, requestCtx, 'bob', sessionId)).track(packet.relay);
+      packet.finish();
+      await vi.advanceTimersByTimeAsync(1_000);
+    }
+
+    download.finish();
+    await vi.advanceTimersByTimeAsync(6_000);
+    await Promise.all(held);
+
+    expect(calls).toEqual([
+      { tag: 'user:bob', method: 'status' },
+      { tag: 'user:bob', method: 'record', bytes: [12, 40] },
+    ]);
+  });
+});
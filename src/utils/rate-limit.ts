@@ -0,0 +1,508 @@
+import { SUPPORTED_RATE_LIMIT_KEYS } from '../config';
+import { readFrameUserId } from '../inspection';
+import type { ClientLimitRecord, Env, RateLimitKeyMode } from '../types';
+import { parsePositiveInteger } from './env';
+import type { RelayGroup } from './http-relay';
+import { createRelayGroup } from './http-relay';
+import { textResponse } from './response';
+import type { RelayHandle } from './socket';
+import type { TrafficStatus } from './traffic';
+import {
+  isTrafficAccountingEnabled,
+  meterRelay,
+  QUOTA_CLOSE_REASON,
+  readTrafficStatus,
+} from './traffic';
+
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+/** Open connections renew their lease; a lease left behind by a vanished isolate expires after this. */
+export const CONNECTION_LEASE_TTL_MS = 180_000;
+const LEASE_RENEW_INTERVAL_MS = 60_000;
+const MAX_LOCAL_RECORDS = 10_000;
+// Packet-up sessions send a POST per packet; their group outlives short pauses between packets.
+const SESSION_METER_IDLE_MS = 5_000;
+
+/** Limits per rate-limit key; 0 disables a limit. */
+export interface RateLimitSettings {
+  upgradesPerMinute: number;
+  maxConnections: number;
+}
+
+export interface LimitRejection {
+  allowed: false;
+  reason: string;
+  /** Time until the upgrade or quota window resets, or null when the connection cap was hit. */
+  retryAfterMs: number | null;
+}
+
+export type RateLimitDecision = { allowed: true } | LimitRejection;
+
+/** Counter store of one key: the CLIENT_LIMITS Durable Object, or isolate-local records without it. */
+interface LimitStore {
+  acquire(settings: RateLimitSettings, leaseId: string | null, now: number): Promise<RateLimitDecision>;
+  renew(leaseId: string, now: number): Promise<void>;
+  release(leaseId: string): Promise<void>;
+}
+
+export interface ConnectionLimiter {
+  /** Set when the handshake is already over a limit or quota; the client gets 429 instead of an upgrade. */
+  rejection: LimitRejection | null;
+  /**
+   * Checks a connection whose key waits for its first frame, under the authenticated user or the user
+   * the frame names. Resolves to the close reason when the user is over a limit or quota, or null;
+   * connections checked at the handshake pass at once.
+   */
+  admit(userId: string | null, firstFrame: Uint8Array): Promise<string | null>;
+  /** Meters the relay's traffic and frees the connection's slot when it closes. */
+  track(relay: RelayHandle): void;
+  /** Frees the connection's slot; safe to call more than once. */
+  release: () => void;
+}
+
+export interface UpgradeLimitOptions {
+  /** First client frame when it arrived as early data. */
+  firstFrame: Uint8Array | null;
+  /** True when the first frame is read at the edge, so user keys can wait for it. */
+  readsFirstFrame: boolean;
+}
+
+const UNLIMITED: ConnectionLimiter = {
+  rejection: null,
+  admit: () => Promise.resolve(null),
+  track: () => {
+    // Nothing is counted.
+  },
+  release: () => {
+    // Nothing was counted.
+  },
+};
+
+const localRecords = new Map<string, ClientLimitRecord>();
+
+export function getRateLimitSettings(env: Env): RateLimitSettings {
+  return {
+    upgradesPerMinute: parsePositiveInteger(env.RATE_LIMIT_UPGRADES_PER_MINUTE, 0),
+    maxConnections: parsePositiveInteger(env.RATE_LIMIT_MAX_CONNECTIONS, 0),
+  };
+}
+
+export function getRateLimitKeyMode(env: Env): RateLimitKeyMode {
+  const configured = (env.RATE_LIMIT_KEY ?? '').toLowerCase();
+
+  if ((SUPPORTED_RATE_LIMIT_KEYS as readonly string[]).includes(configured)) {
+    return configured as RateLimitKeyMode;
+  }
+
+  return 'ip';
+}
+
+function liveLeases(leases: Record<string, number>, now: number): Record<string, number> {
+  const live: Record<string, number> = {};
+
+  for (const [leaseId, expiresAt] of Object.entries(leases)) {
+    if (expiresAt > now) {
+      live[leaseId] = expiresAt;
+    }
+  }
+
+  return live;
+}
+
+/**
+ * Admits one upgrade against a key's counters. Upgrades are counted in fixed one-minute windows;
+ * connections hold a lease (when `leaseId` is given) that counts against the cap until it is released
+ * or expires. Rejected upgrades are not counted.
+ */
+export function applyAdmission(
+  record: ClientLimitRecord | undefined,
+  settings: RateLimitSettings,
+  leaseId: string | null,
+  now: number,
+): { record: ClientLimitRecord; decision: RateLimitDecision } {
+  const windowExpired = !record || now - record.windowStartedAt >= RATE_LIMIT_WINDOW_MS;
+  const windowStartedAt = windowExpired ? now : record.windowStartedAt;
+  const upgrades = windowExpired ? 0 : record.upgrades;
+  const leases = liveLeases(record?.leases ?? {}, now);
+  const current: ClientLimitRecord = { windowStartedAt, upgrades, leases };
+
+  if (settings.upgradesPerMinute > 0 && upgrades >= settings.upgradesPerMinute) {
+    return {
+      record: current,
+      decision: {
+        allowed: false,
+        reason: 'Too many upgrades',
+        retryAfterMs: windowStartedAt + RATE_LIMIT_WINDOW_MS - now,
+      },
+    };
+  }
+
+  if (settings.maxConnections > 0 && Object.keys(leases).length >= settings.maxConnections) {
+    return {
+      record: current,
+      decision: { allowed: false, reason: 'Too many connections', retryAfterMs: null },
+    };
+  }
+
+  return {
+    record: {
+      windowStartedAt,
+      upgrades: upgrades + 1,
+      leases: leaseId ? { ...leases, [leaseId]: now + CONNECTION_LEASE_TTL_MS } : leases,
+    },
+    decision: { allowed: true },
+  };
+}
+
+export function renewLease(
+  record: ClientLimitRecord | undefined,
+  leaseId: string,
+  now: number,
+): ClientLimitRecord | undefined {
+  if (!record?.leases[leaseId]) {
+    return record;
+  }
+
+  return { ...record, leases: { ...record.leases, [leaseId]: now + CONNECTION_LEASE_TTL_MS } };
+}
+
+export function releaseLease(
+  record: ClientLimitRecord | undefined,
+  leaseId: string,
+): ClientLimitRecord | undefined {
+  if (!record?.leases[leaseId]) {
+    return record;
+  }
+
+  const leases = { ...record.leases };
+  delete leases[leaseId];
+  return { ...record, leases };
+}
+
+function updateLocalRecord(
+  key: string,
+  update: (record: ClientLimitRecord | undefined) => ClientLimitRecord | undefined,
+): void {
+  const next = update(localRecords.get(key));
+
+  // Re-inserting keeps the map in last-use order, so the oldest key is evicted first.
+  localRecords.delete(key);
+
+  if (next) {
+    localRecords.set(key, next);
+  }
+
+  if (localRecords.size > MAX_LOCAL_RECORDS) {
+    const oldest = localRecords.keys().next();
+
+    if (!oldest.done) {
+      localRecords.delete(oldest.value);
+    }
+  }
+}
+
+function localStore(key: string): LimitStore {
+  return {
+    acquire(settings, leaseId, now) {
+      let decision: RateLimitDecision = { allowed: true };
+
+      updateLocalRecord(key, (record) => {
+        const admission = applyAdmission(record, settings, leaseId, now);
+        decision = admission.decision;
+        return admission.record;
+      });
+
+      return Promise.resolve(decision);
+    },
+    renew(leaseId, now) {
+      updateLocalRecord(key, (record) => renewLease(record, leaseId, now));
+      return Promise.resolve();
+    },
+    release(leaseId) {
+      updateLocalRecord(key, (record) => releaseLease(record, leaseId));
+      return Promise.resolve();
+    },
+  };
+}
+
+function getLimitStore(env: Env, key: string): LimitStore {
+  if (!env.CLIENT_LIMITS) {
+    return localStore(key);
+  }
+
+  // One object per key keeps unrelated clients off each other's object.
+  const stub = env.CLIENT_LIMITS.get(env.CLIENT_LIMITS.idFromName(key));
+
+  return {
+    acquire: (settings, leaseId, now) => stub.acquire(settings, leaseId, now),
+    renew: (leaseId, now) => stub.renew(leaseId, now),
+    release: (leaseId) => stub.release(leaseId),
+  };
+}
+
+function clientIpKey(request: Request): string {
+  return `ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`;
+}
+
+function routeKey(request: Request, env: Env): string {
+  return `route:${env.ROUTE_NAME ?? new URL(request.url).hostname}`;
+}
+
+/** Rate-limit key known before the upgrade, or null when a `user` key waits for the first frame. */
+function handshakeKey(
+  request: Request,
+  env: Env,
+  userId: string | null,
+  readsFirstFrame: boolean,
+): string | null {
+  const mode = getRateLimitKeyMode(env);
+
+  if (mode === 'route') {
+    return routeKey(request, env);
+  }
+
+  if (mode === 'user') {
+    if (userId) {
+      return `user:${userId}`;
+    }
+
+    if (readsFirstFrame) {
+      return null;
+    }
+  }
+
+  return clientIpKey(request);
+}
+
+// The quota window decides how long a user over quota is refused.
+function quotaRejection(status: TrafficStatus | null): LimitRejection | null {
+  if (!status?.exceeded) {
+    return null;
+  }
+
+  const retryAfterMs = (status.resetsAt ?? Date.now()) - Date.now();
+  return { allowed: false, reason: QUOTA_CLOSE_REASON, retryAfterMs };
+}
+
+/**
+ * Applies RATE_LIMIT_UPGRADES_PER_MINUTE and RATE_LIMIT_MAX_CONNECTIONS to a WebSocket upgrade. The
+ * connection is counted under its client IP, route or user (RATE_LIMIT_KEY); a user key that is only
+ * known from the first frame is counted by `admit` after the upgrade, and connections whose user
+ * cannot be read fall back to the client IP. Counters are shared through the CLIENT_LIMITS Durable
+ * Object when it is bound; if it cannot be reached the upgrade is let through.
+ *
+ * With traffic accounting the connection is also checked against the traffic quotas of its user, and
+ * `track` meters the relay under the user or, when no user can be read, its route, which has no quota.
+ */
+export async function limitUpgrade(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  options: UpgradeLimitOptions,
+): Promise<ConnectionLimiter> {
+  const settings = getRateLimitSettings(env);
+  const rateLimited = settings.upgradesPerMinute > 0 || settings.maxConnections > 0;
+  const accounted = isTrafficAccountingEnabled(env);
+
+  if (!rateLimited && !accounted) {
+    return UNLIMITED;
+  }
+
+  let counted = !rateLimited;
+  let released = false;
+  let trafficTag: string | null = null;
+  let trafficStatus: TrafficStatus | null = null;
+  let lease: { store: LimitStore; leaseId: string; renewTimer: ReturnType<typeof setInterval> } | null =
+    null;
+
+  const acquire = async (key: string): Promise<RateLimitDecision> => {
+    counted = true;
+    const store = getLimitStore(env, key);
+    const leaseId = settings.maxConnections > 0 ? crypto.randomUUID() : null;
+    let decision: RateLimitDecision;
+
+    try {
+      decision = await store.acquire(settings, leaseId, Date.now());
+    } catch (error) {
+      if (env.DEBUG === 'true') {
+        console.error('[rate-limit] client limit store unavailable', error);
+      }
+
+      return { allowed: true };
+    }
+
+    if (decision.allowed && leaseId) {
+      const renewTimer = setInterval(() => {
+        ctx.waitUntil(
+          store.renew(leaseId, Date.now()).catch(() => {
+            // A missed renewal is retried on the next interval, well before the lease expires.
+          }),
+        );
+      }, LEASE_RENEW_INTERVAL_MS);
+
+      lease = { store, leaseId, renewTimer };
+
+      // The connection may have ended while the lease was being acquired.
+      if (released) {
+        release();
+      }
+    }
+
+    return decision;
+  };
+
+  const release = (): void => {
+    released = true;
+
+    if (!lease) {
+      return;
+    }
+
+    const { store, leaseId, renewTimer } = lease;
+    lease = null;
+    clearInterval(renewTimer);
+    ctx.waitUntil(
+      store.release(leaseId).catch(() => {
+        // An unreleased lease expires on its own.
+      }),
+    );
+  };
+
+  const checkQuota = async (tag: string): Promise<LimitRejection | null> => {
+    trafficTag = tag;
+    trafficStatus = await readTrafficStatus(env, tag);
+    return quotaRejection(trafficStatus);
+  };
+
+  const earlyUserId = options.firstFrame ? readFrameUserId(options.firstFrame) : null;
+  let rejection: LimitRejection | null = null;
+
+  if (accounted) {
+    // Without a user in early data the tag waits for the first frame, or falls back to the route.
+    if (earlyUserId) {
+      rejection = await checkQuota(`user:${earlyUserId}`);
+    } else if (!options.readsFirstFrame) {
+      rejection = await checkQuota(routeKey(request, env));
+    }
+  }
+
+  const key = counted ? null : handshakeKey(request, env, earlyUserId, options.readsFirstFrame);
+
+  if (!rejection && key) {
+    const decision = await acquire(key);
+    rejection = decision.allowed ? null : decision;
+  }
+
+  return {
+    rejection,
+    async admit(userId, firstFrame) {
+      const frameUserId = userId ?? readFrameUserId(firstFrame);
+
+      if (accounted && !trafficTag) {
+        const tag = frameUserId ? `user:${frameUserId}` : routeKey(request, env);
+        const refusal = await checkQuota(tag);
+
+        if (refusal) {
+          return refusal.reason;
+        }
+      }
+
+      if (!counted) {
+        const decision = await acquire(frameUserId ? `user:${frameUserId}` : clientIpKey(request));
+
+        if (!decision.allowed) {
+          return decision.reason;
+        }
+      }
+
+      return null;
+    },
+    track(relay) {
+      void relay.closed.then(release);
+
+      if (trafficTag) {
+        meterRelay(env, ctx, trafficTag, relay, trafficStatus);
+      }
+    },
+    release,
+  };
+}
+
+interface SessionMeter {
+  status: Promise<TrafficStatus | null>;
+  group: RelayGroup;
+}
+
+const sessionMeters = new Map<string, SessionMeter>();
+
+/** The metered group of the requests of `sessionId` under `tag` in this isolate, started on first use. */
+function getSessionMeter(env: Env, tag: string, sessionId: string): SessionMeter {
+  const key = `${sessionId} ${tag}`;
+  const existing = sessionMeters.get(key);
+
+  if (existing) {
+    return existing;
+  }
+
+  const meter: SessionMeter = {
+    status: readTrafficStatus(env, tag),
+    group: createRelayGroup(SESSION_METER_IDLE_MS),
+  };
+
+  sessionMeters.set(key, meter);
+  void meter.group.closed.then(() => {
+    if (sessionMeters.get(key) === meter) {
+      sessionMeters.delete(key);
+    }
+  });
+  void meter.status.then((status) => {
+    meterRelay(env, meter.group.ctx, tag, meter.group, status);
+  });
+
+  return meter;
+}
+
+/**
+ * Traffic quota and accounting of a streamed HTTP request (a gRPC tunnel or a native XHTTP request), which
+ * the connection limits do not cover. The request is counted under `userId`, or under its route when no
+ * user could be read, and `track` meters its bodies (see `createHttpBodyRelay`). Requests naming a
+ * `sessionId` are metered together with the other requests of that session (see `createRelayGroup`).
+ */
+export async function limitHttpRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  userId: string | null,
+  sessionId: string | null = null,
+): Promise<ConnectionLimiter> {
+  if (!isTrafficAccountingEnabled(env)) {
+    return UNLIMITED;
+  }
+
+  const tag = userId ? `user:${userId}` : routeKey(request, env);
+  const meter = sessionId ? getSessionMeter(env, tag, sessionId) : null;
+  const status = await (meter ? meter.status : readTrafficStatus(env, tag));
+
+  return {
+    rejection: quotaRejection(status),
+    admit: () => Promise.resolve(null),
+    track(relay) {
+      // A group that closed meanwhile no longer reports, so the request is then metered on its own.
+      if (!meter?.group.join(relay, ctx)) {
+        meterRelay(env, ctx, tag, relay, status);
+      }
+    },
+    release: () => {
+      // No connection slot was taken.
+    },
+  };
+}
+
+export function rateLimitResponse(rejection: LimitRejection): Response {
+  const response = textResponse(429, `${rejection.reason}.`);
+
+  if (rejection.retryAfterMs !== null) {
+    response.headers.set('retry-after', String(Math.ceil(rejection.retryAfterMs / 1000)));
+  }
+
+  return response;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BackendTarget, Env } from '../types';
+import { parseBackendPool } from './backends';
+import type { RawUpgradeDialResult } from './raw-upgrade';
+import { dialRawUpgradeWithFailover } from './raw-upgrade';
+import type { TcpDial } from './tcp';
+
+const ctx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+} as unknown as ExecutionContext;
+
+interface FakeHost {
+  /** Chunks the host answers the upgrade request with. */
+  answer: string[];
+  /** Upgrade requests written to the host. */
+  requests: string[];
+}
+
+function createHost(...answer: string[]): FakeHost {
+  return { answer, requests: [] };
+}
+
+/** Dials fake TCP sockets by hostname; each socket answers with its host's chunks. */
+function createDial(hosts: Record<string, FakeHost>): TcpDial {
+  return (address) => {
+    const host = hosts[address.hostname];
+
+    if (!host) {
+      throw new Error(`connection refused: ${address.hostname}`);
+    }
+
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    return {
+      opened: Promise.resolve({}),
+      closed: Promise.resolve(),
+      readable: new ReadableStream<Uint8Array>({
+        start(controller) {
+          host.answer.forEach((chunk) => {
+            controller.enqueue(encoder.encode(chunk));
+          });
+        },
+      }),
+      writable: new WritableStream<Uint8Array>({
+        write(chunk) {
+          host.requests.push(decoder.decode(chunk));
+        },
+      }),
+      close: () => Promise.resolve(),
+    } as unknown as Socket;
+  };
+}
+
+function dial(backends: string, hosts: Record<string, FakeHost>): Promise<RawUpgradeDialResult> {
+  const env = { BACKEND_URLS: backends } as Env;
+  const [primary] = parseBackendPool(env) as [BackendTarget];
+  const headers = new Headers({
+    'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+    'User-Agent': 'xray',
+  });
+
+  return dialRawUpgradeWithFailover(
+    primary,
+    env,
+    ctx,
+    new URL('https://proxy.example.com/hu?x=1'),
+    headers,
+    'websocket',
+    () => {},
+    createDial(hosts),
+  );
+}
+
+describe('dialRawUpgradeWithFailover', () => {
+  it('writes the upgrade request and keeps the bytes sent after the 101 head', async () => {
+    const host = createHost('HTTP/1.1 101 Switching Protocols\r\nX-Node: a\r\n', '\r\nhello');
+
+    const result = await dial('http://raw-ok.test:8080', { 'raw-ok.test': host });
+
+    expect(host.requests).toEqual([
+      'GET /hu?x=1 HTTP/1.1\r\nHost: raw-ok.test:8080\r\nConnection: Upgrade\r\n' +
+        'Upgrade: websocket\r\nuser-agent: xray\r\n\r\n',
+    ]);
+    expect(result.ok).toBe(true);
+
+    if (result.ok) {
+      expect(result.headers.get('X-Node')).toBe('a');
+      expect(new TextDecoder().decode(result.initialData)).toBe('hello');
+    }
+  });
+
+  it('returns a 4xx answer without trying the next backend', async () => {
+    const first = createHost('HTTP/1.1 404 Not Found\r\n\r\n');
+    const second = createHost('HTTP/1.1 101 Switching Protocols\r\n\r\n');
+
+    const result = await dial('http://raw-404-a.test,http://raw-404-b.test', {
+      'raw-404-a.test': first,
+      'raw-404-b.test': second,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? null : result.rejection?.status).toBe(404);
+    expect(second.requests).toEqual([]);
+  });
+
+  it('fails over on a 5xx answer, an unreachable backend or an invalid response', async () => {
+    const hosts = {
+      'raw-5xx.test': createHost('HTTP/1.1 503 Service Unavailable\r\n\r\n'),
+      'raw-junk.test': createHost('SSH-2.0-OpenSSH\r\n\r\n'),
+      'raw-up.test': createHost('HTTP/1.1 101 Switching Protocols\r\n\r\n'),
+    };
+
+    for (const failing of ['raw-5xx.test', 'raw-down.test', 'raw-junk.test']) {
+      const result = await dial(`http://${failing},http://raw-up.test`, hosts);
+
+      expect(result.ok ? result.backend.url.hostname : null).toBe('raw-up.test');
+    }
+  });
+
+  it('skips service binding backends', async () => {
+    const result = await dial('service:RAW_ORIGIN', {});
+
+    expect(result).toMatchObject({ ok: false, rejection: null });
+  });
+});
@@ -0,0 +1,278 @@
+import type { BackendTarget, Env } from '../types';
+import { getFailoverOrder, toBackendUrl } from './backends';
+import { beginCircuitTrial, reportBackendOutcome, responseOutcome } from './circuit-breaker';
+import { parsePositiveInteger } from './env';
+import type { UpgradeAttemptFailure, UpgradeDialFailure } from './failover';
+import { replaceDialFailure } from './failover';
+import { BACKEND_FAILOVER_DEADLINE_MS, BACKEND_UPGRADE_TIMEOUT_MS } from './fetch';
+import type { TcpDial } from './tcp';
+import { dialTcp } from './tcp';
+
+export type RawUpgradeDialResult =
+  | {
+      ok: true;
+      backend: BackendTarget;
+      backendUrl: URL;
+      tcpSocket: Socket;
+      /** Headers of the backend's 101 response. */
+      headers: Headers;
+      /** Upgraded-stream bytes the backend sent together with its 101 response. */
+      initialData: Uint8Array;
+    }
+  | UpgradeDialFailure;
+
+const MAX_RESPONSE_HEAD_BYTES = 16 * 1024;
+const STATUS_LINE_PATTERN = /^HTTP\/1\.[01] (\d{3})(?: (.*))?$/;
+// Hop-by-hop and WebSocket handshake headers make no sense on a raw upgraded stream.
+const DROPPED_REQUEST_HEADERS = new Set([
+  'host',
+  'connection',
+  'upgrade',
+  'content-length',
+  'transfer-encoding',
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol',
+]);
+
+interface ResponseHead {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  initialData: Uint8Array;
+}
+
+class RawUpgradeError extends Error {
+  constructor(
+    message: string,
+    readonly rejection: Response | null,
+  ) {
+    super(message);
+    this.name = 'RawUpgradeError';
+  }
+}
+
+function buildUpgradeRequest(backendUrl: URL, headers: Headers, upgradeValue: string): Uint8Array {
+  const lines = [
+    `GET ${backendUrl.pathname}${backendUrl.search} HTTP/1.1`,
+    `Host: ${backendUrl.host}`,
+    'Connection: Upgrade',
+    `Upgrade: ${upgradeValue}`,
+  ];
+
+  headers.forEach((value, name) => {
+    if (!DROPPED_REQUEST_HEADERS.has(name.toLowerCase())) {
+      lines.push(`${name}: ${value}`);
+    }
+  });
+
+  return new TextEncoder().encode(`${lines.join('\r\n')}\r\n\r\n`);
+}
+
+function findHeadEnd(bytes: Uint8Array): number {
+  for (let i = 3; i < bytes.byteLength; i += 1) {
+    if (bytes[i - 3] === 0x0d && bytes[i - 2] === 0x0a && bytes[i - 1] === 0x0d && bytes[i] === 0x0a) {
+      return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+function parseResponseHead(head: string, initialData: Uint8Array): ResponseHead {
+  const [statusLine = '', ...headerLines] = head.split('\r\n');
+  const match = STATUS_LINE_PATTERN.exec(statusLine);
+
+  if (!match) {
+    throw new RawUpgradeError('Backend sent an invalid HTTP response.', null);
+  }
+
+  const headers = new Headers();
+
+  for (const line of headerLines) {
+    const separator = line.indexOf(':');
+
+    if (separator > 0) {
+      try {
+        headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      } catch {
+        // Skip header lines the Headers API refuses; they cannot be forwarded anyway.
+      }
+    }
+  }
+
+  return { status: Number(match[1]), statusText: match[2] ?? '', headers, initialData };
+}
+
+/** Reads the HTTP/1.1 response head; bytes after it already belong to the upgraded stream. */
+async function readResponseHead(socket: Socket): Promise<ResponseHead> {
+  const reader = socket.readable.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+  let buffered: Uint8Array = new Uint8Array(0);
+
+  try {
+    for (;;) {
+      const headEnd = findHeadEnd(buffered);
+
+      if (headEnd !== -1) {
+        const head = new TextDecoder().decode(buffered.subarray(0, headEnd - 4));
+        return parseResponseHead(head, buffered.subarray(headEnd));
+      }
+
+      if (buffered.byteLength > MAX_RESPONSE_HEAD_BYTES) {
+        throw new RawUpgradeError('Backend response head is too large.', null);
+      }
+
+      const { done, value } = await reader.read();
+
+      if (done) {
+        throw new RawUpgradeError('Backend closed the connection during the upgrade.', null);
+      }
+
+      const merged = new Uint8Array(buffered.byteLength + value.byteLength);
+      merged.set(buffered, 0);
+      merged.set(value, buffered.byteLength);
+      buffered = merged;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function attemptRawUpgrade(
+  backendUrl: URL,
+  request: Uint8Array,
+  timeoutMs: number,
+  dial: TcpDial,
+): Promise<{ tcpSocket: Socket; head: ResponseHead }> {
+  const secure = backendUrl.protocol === 'https:';
+  const tcpSocket = dial(
+    { hostname: backendUrl.hostname, port: Number(backendUrl.port) || (secure ? 443 : 80) },
+    { secureTransport: secure ? 'on' : 'off', allowHalfOpen: false },
+  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new RawUpgradeError('Backend upgrade timed out.', null));
+    }, timeoutMs);
+  });
+
+  try {
+    const handshake = async (): Promise<ResponseHead> => {
+      await tcpSocket.opened;
+      const writer = tcpSocket.writable.getWriter();
+      await writer.write(request);
+      writer.releaseLock();
+      return readResponseHead(tcpSocket);
+    };
+    const head = await Promise.race([handshake(), timeout]);
+
+    if (head.status !== 101) {
+      // The body is not read: it may be chunked or never end, and the socket is closed below.
+      const rejection =
+        head.status >= 200 && head.status <= 599
+          ? new Response(null, { status: head.status, statusText: head.statusText, headers: head.headers })
+          : null;
+      throw new RawUpgradeError(`Backend failed to upgrade connection (status ${head.status}).`, rejection);
+    }
+
+    return { tcpSocket, head };
+  } catch (error) {
+    tcpSocket.close().catch(() => {
+      // Ignore close errors; the attempt already failed.
+    });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Raw HTTP/1.1 Upgrade: dials the backend over TCP (TLS for https backends), writes the Upgrade request
+ * itself and expects a 101 response, after which the connection carries the raw upgraded byte stream.
+ * Fails over across the pool like `dialUpgradeWithFailover`. Service Binding backends cannot be dialed
+ * this way and are reported as failed attempts.
+ */
+export async function dialRawUpgradeWithFailover(
+  primary: BackendTarget,
+  env: Env,
+  ctx: ExecutionContext,
+  inbound: URL,
+  headers: Headers,
+  upgradeValue: string,
+  onAttemptFailure: UpgradeAttemptFailure,
+  dial: TcpDial = dialTcp,
+): Promise<RawUpgradeDialResult> {
+  const attemptTimeoutMs = parsePositiveInteger(env.BACKEND_ATTEMPT_TIMEOUT_MS, BACKEND_UPGRADE_TIMEOUT_MS);
+  const deadlineMs = parsePositiveInteger(env.BACKEND_FAILOVER_DEADLINE_MS, BACKEND_FAILOVER_DEADLINE_MS);
+  const startedAt = Date.now();
+  let failure: UpgradeDialFailure = {
+    ok: false,
+    message: 'Backend upgrade timed out.',
+    closeReason: 'Unable to connect to backend',
+    rejection: null,
+  };
+
+  for (const backend of getFailoverOrder(primary, env)) {
+    const remainingMs = deadlineMs - (Date.now() - startedAt);
+
+    if (remainingMs <= 0) {
+      break;
+    }
+
+    const backendUrl = toBackendUrl(backend, inbound);
+
+    if (backend.binding) {
+      onAttemptFailure(backend, backendUrl, 'service bindings do not support raw upgrades');
+      continue;
+    }
+
+    beginCircuitTrial(backend, env);
+
+    try {
+      const request = buildUpgradeRequest(backendUrl, headers, upgradeValue);
+      const { tcpSocket, head } = await attemptRawUpgrade(
+        backendUrl,
+        request,
+        Math.min(attemptTimeoutMs, remainingMs),
+        dial,
+      );
+      reportBackendOutcome(env, ctx, backend, 'success');
+      return {
+        ok: true,
+        backend,
+        backendUrl,
+        tcpSocket,
+        headers: head.headers,
+        initialData: head.initialData,
+      };
+    } catch (error) {
+      if (error instanceof RawUpgradeError && error.rejection) {
+        const outcome = responseOutcome(error.rejection.status);
+        reportBackendOutcome(env, ctx, backend, outcome);
+        onAttemptFailure(backend, backendUrl, `rejected (${error.rejection.status})`);
+        failure = await replaceDialFailure(failure, {
+          ok: false,
+          message: error.message,
+          closeReason: `Backend upgrade rejected (${error.rejection.status})`,
+          rejection: error.rejection,
+        });
+
+        if (outcome === 'success') {
+          return failure;
+        }
+      } else {
+        reportBackendOutcome(env, ctx, backend, 'failure');
+        onAttemptFailure(backend, backendUrl, 'connection error', error);
+        failure = await replaceDialFailure(failure, {
+          ok: false,
+          message: 'Unable to connect to backend service.',
+          closeReason: 'Unable to connect to backend',
+          rejection: null,
+        });
+      }
+    }
+  }
+
+  return failure;
+}
@@ -0,0 +1,29 @@
+import type { Env } from '../types';
+import type { BandwidthLimits } from './bandwidth';
+import { getBandwidthLimits, NO_BANDWIDTH_LIMITS } from './bandwidth';
+import type { FlowControlOptions } from './flow-control';
+import { DEFAULT_FLOW_CONTROL, getFlowControlOptions } from './flow-control';
+import type { SessionLimits } from './session-limits';
+import { getSessionLimits, NO_SESSION_LIMITS } from './session-limits';
+
+/** Per-connection relay settings, resolved once from the (route-scoped) env. */
+export interface RelayPolicy {
+  flowControl: FlowControlOptions;
+  session: SessionLimits;
+  bandwidth: BandwidthLimits;
+}
+
+export const DEFAULT_RELAY_POLICY: RelayPolicy = {
+  flowControl: DEFAULT_FLOW_CONTROL,
+  session: NO_SESSION_LIMITS,
+  bandwidth: NO_BANDWIDTH_LIMITS,
+};
+
+/** `userId`, when the first frame named one, selects that user's bandwidth limits. */
+export function getRelayPolicy(env: Env, userId: string | null = null): RelayPolicy {
+  return {
+    flowControl: getFlowControlOptions(env),
+    session: getSessionLimits(env),
+    bandwidth: getBandwidthLimits(env, userId),
+  };
+}
@@ -0,0 +1,115 @@
+import type { Env } from '../types';
+import { parsePositiveInteger } from './env';
+import type { RelayDirection } from './socket';
+
+/** Limits on a bridged session; 0 disables a limit. */
+export interface SessionLimits {
+  /** Closes the session when the client sends nothing for this long. */
+  clientIdleTimeoutMs: number;
+  /** Closes the session when the backend sends nothing for this long. */
+  backendIdleTimeoutMs: number;
+  maxSessionMs: number;
+  /** Interval of empty keepalive frames sent to WebSocket backends. */
+  keepaliveIntervalMs: number;
+}
+
+export interface SessionWatch {
+  /** Records traffic from the source side of `direction`. */
+  touch(direction: RelayDirection): void;
+  dispose(): void;
+}
+
+export const NO_SESSION_LIMITS: SessionLimits = {
+  clientIdleTimeoutMs: 0,
+  backendIdleTimeoutMs: 0,
+  maxSessionMs: 0,
+  keepaliveIntervalMs: 0,
+};
+
+export function getSessionLimits(env: Env): SessionLimits {
+  return {
+    clientIdleTimeoutMs: parsePositiveInteger(env.CLIENT_IDLE_TIMEOUT_MS, 0),
+    backendIdleTimeoutMs: parsePositiveInteger(env.BACKEND_IDLE_TIMEOUT_MS, 0),
+    maxSessionMs: parsePositiveInteger(env.MAX_SESSION_MS, 0),
+    keepaliveIntervalMs: parsePositiveInteger(env.BACKEND_KEEPALIVE_INTERVAL_MS, 0),
+  };
+}
+
+function idleTimeoutFor(limits: SessionLimits, direction: RelayDirection): number {
+  return direction === 'client->backend' ? limits.clientIdleTimeoutMs : limits.backendIdleTimeoutMs;
+}
+
+/**
+ * Enforces idle timeouts and the session lifetime. `onExpire` receives the close code and a reason that
+ * names the rule, and runs at most once. `keepalive`, when given, is called every keepalive interval.
+ */
+export function watchSession(
+  limits: SessionLimits,
+  onExpire: (code: number, reason: string) => void,
+  keepalive?: () => void,
+): SessionWatch {
+  const lastActivity: Record<RelayDirection, number> = {
+    'client->backend': Date.now(),
+    'backend->client': Date.now(),
+  };
+  const idleTimers: Partial<Record<RelayDirection, ReturnType<typeof setTimeout>>> = {};
+  let lifetimeTimer: ReturnType<typeof setTimeout> | undefined;
+  let keepaliveTimer: ReturnType<typeof setInterval> | undefined;
+  let done = false;
+
+  const dispose = (): void => {
+    done = true;
+    clearTimeout(idleTimers['client->backend']);
+    clearTimeout(idleTimers['backend->client']);
+    clearTimeout(lifetimeTimer);
+    clearInterval(keepaliveTimer);
+  };
+
+  const expire = (code: number, reason: string): void => {
+    if (done) {
+      return;
+    }
+
+    dispose();
+    onExpire(code, reason);
+  };
+
+  // Traffic only updates a timestamp; the timer re-arms itself for the remaining time when it fires.
+  const armIdle = (direction: RelayDirection, delayMs: number): void => {
+    idleTimers[direction] = setTimeout(() => {
+      const timeoutMs = idleTimeoutFor(limits, direction);
+      const idleMs = Date.now() - lastActivity[direction];
+
+      if (idleMs >= timeoutMs) {
+        expire(1000, direction === 'client->backend' ? 'Client idle timeout' : 'Backend idle timeout');
+      } else if (!done) {
+        armIdle(direction, timeoutMs - idleMs);
+      }
+    }, delayMs);
+  };
+
+  for (const direction of ['client->backend', 'backend->client'] as const) {
+    const timeoutMs = idleTimeoutFor(limits, direction);
+
+    if (timeoutMs > 0) {
+      armIdle(direction, timeoutMs);
+    }
+  }
+
+  if (limits.maxSessionMs > 0) {
+    lifetimeTimer = setTimeout(() => {
+      expire(1001, 'Session lifetime exceeded');
+    }, limits.maxSessionMs);
+  }
+
+  if (keepalive && limits.keepaliveIntervalMs > 0) {
+    keepaliveTimer = setInterval(keepalive, limits.keepaliveIntervalMs);
+  }
+
+  return {
+    touch(direction) {
+      lastActivity[direction] = Date.now();
+    },
+    dispose,
+  };
+}
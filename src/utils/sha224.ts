@@ -0,0 +1,92 @@
+// WebCrypto has no SHA-224, which Trojan uses for password hashes. This is SHA-256 with the SHA-224
+// initial values, truncated to 28 bytes (FIPS 180-4).
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [0xc1059ed8, 0x367cd507, 0x3070dd17, 0xf70e5939, 0xffc00b31, 0x68581511, 0x64f98fa7, 0xbefa4fa4];
+
+const BLOCK_BYTES = 64;
+const DIGEST_WORDS = 7;
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+function pad(message: Uint8Array): DataView {
+  const paddedLength = Math.ceil((message.byteLength + 9) / BLOCK_BYTES) * BLOCK_BYTES;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.byteLength] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = message.byteLength * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+  return view;
+}
+
+export function sha224(message: Uint8Array): Uint8Array {
+  const view = pad(message);
+  const state = [...INITIAL_STATE];
+  const schedule = new Uint32Array(64);
+
+  for (let offset = 0; offset < view.byteLength; offset += BLOCK_BYTES) {
+    for (let i = 0; i < 16; i += 1) {
+      schedule[i] = view.getUint32(offset + i * 4);
+    }
+
+    for (let i = 16; i < 64; i += 1) {
+      const w15 = schedule[i - 15] as number;
+      const w2 = schedule[i - 2] as number;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      schedule[i] = (schedule[i - 16] as number) + s0 + (schedule[i - 7] as number) + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state as [number, number, number, number, number, number, number, number];
+
+    for (let i = 0; i < 64; i += 1) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + (ROUND_CONSTANTS[i] as number) + (schedule[i] as number)) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, index) => {
+      state[index] = ((state[index] as number) + value) >>> 0;
+    });
+  }
+
+  const digest = new Uint8Array(DIGEST_WORDS * 4);
+  const digestView = new DataView(digest.buffer);
+
+  for (let i = 0; i < DIGEST_WORDS; i += 1) {
+    digestView.setUint32(i * 4, state[i] as number);
+  }
+
+  return digest;
+}
+
+export function sha224Hex(text: string): string {
+  return Array.from(sha224(new TextEncoder().encode(text)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_RELAY_POLICY } from './relay-policy';
+import type { RelayDirection } from './socket';
+import { bridgeSockets } from './socket';
+
+function openPair(): [WebSocket, WebSocket] {
+  const pair = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+  pair.forEach((socket) => socket.accept());
+  return pair;
+}
+
+describe('bridgeSockets', () => {
+  it('delivers every shaped frame a backend sent before closing', async () => {
+    const [client, clientServer] = openPair();
+    const [backend, backendClient] = openPair();
+    const errors: RelayDirection[] = [];
+    const received: number[] = [];
+    const clientClose = new Promise<number>((resolve) => {
+      client.addEventListener('close', (event) => resolve(event.code));
+    });
+
+    client.addEventListener('message', (event) => {
+      received.push((event.data as ArrayBuffer).byteLength);
+    });
+
+    const relay = bridgeSockets(
+      clientServer,
+      backendClient,
+      (direction) => errors.push(direction),
+      [],
+      {
+        ...DEFAULT_RELAY_POLICY,
+        bandwidth: { uploadBytesPerSecond: 0, downloadBytesPerSecond: 400, burstBytes: 16 },
+      },
+    );
+
+    for (let i = 0; i < 3; i += 1) {
+      backend.send(new Uint8Array(16));
+    }
+
+    backend.close(1000, 'done');
+    await relay.closed;
+
+    expect(await clientClose).toBe(1000);
+    expect(errors).toEqual([]);
+    expect(received).toEqual([16, 16, 16]);
+    expect(relay.bytes['backend->client']).toBe(48);
+  });
+});
@@ -1,8 +1,28 @@
-import { BACKEND_ORIGIN } from '../config';
-import type { Env } from '../types';
+import { createBandwidthShaper } from './bandwidth';
+import type { RelayPolicy } from './relay-policy';
+import { DEFAULT_RELAY_POLICY } from './relay-policy';
+import { watchSession } from './session-limits';
 
 export type WebSocketPayload = ArrayBuffer | ArrayBufferView | Blob | string;
-type RelayDirection = 'client->backend' | 'backend->client';
+export type RelayDirection = 'client->backend' | 'backend->client';
+
+export interface RelayHandle {
+  /** Resolves once the relay has closed both sides. */
+  closed: Promise<void>;
+  /** Bytes delivered in each direction so far. */
+  bytes: Record<RelayDirection, number>;
+  close(code: number, reason: string): void;
+}
+
+const encoder = new TextEncoder();
+
+export function payloadByteLength(payload: WebSocketPayload): number {
+  if (typeof payload === 'string') {
+    return encoder.encode(payload).byteLength;
+  }
+
+  return payload instanceof Blob ? payload.size : payload.byteLength;
+}
 
 export function hasUpgradeRequest(request: Request, strictWebSocketUpgrade: boolean): boolean {
   const connectionHasUpgrade = request.headers.get('Connection')?.toLowerCase().includes('upgrade') ?? false;
@@ -19,22 +39,6 @@ export function hasUpgradeRequest(request: Request, strictWebSocketUpgrade: bool
   return upgrade.toLowerCase() === 'websocket';
 }
 
-export function parseBackendUrl(request: Request, env: Env, inbound: URL = new URL(request.url)): URL {
-  const rawBackendUrl = (env.BACKEND_URL ?? BACKEND_ORIGIN).trim();
-  let backendUrl: URL;
-
-  try {
-    backendUrl = new URL(rawBackendUrl);
-  } catch {
-    throw new Error('BACKEND_URL is not a valid URL.');
-  }
-
-  // Preserve the user-requested path exactly (no Worker-side path injection).
-  backendUrl.pathname = inbound.pathname;
-  backendUrl.search = inbound.search;
-  return backendUrl;
-}
-
 export function buildBackendPassthroughHeaders(request: Request): Headers {
   const headers = new Headers(request.headers);
   headers.delete('Host');
@@ -92,12 +96,32 @@ export function safeClose(socket: WebSocket, code: number, reason: string): void
   }
 }
 
+/**
+ * Relays frames between two accepted sockets. Each direction delivers frames in arrival order. A
+ * WebSocket send hands the frame to the runtime at once and reports nothing about what the peer has
+ * read, so there is no backlog to watch and the flow-control watermarks do not apply here. The session
+ * limits of `policy` close idle or expired sessions and send keepalive frames to the backend, and its
+ * bandwidth limits delay sends. A source that outpaces its limit is buffered in the isolate, and the
+ * frames it queued before closing are still sent to the other side.
+ */
 export function bridgeSockets(
   clientSocket: WebSocket,
   backendSocket: WebSocket,
   onRelayError: (direction: RelayDirection, error: unknown) => void,
-): void {
+  pendingClientFrames: readonly WebSocketPayload[] = [],
+  policy: RelayPolicy = DEFAULT_RELAY_POLICY,
+): RelayHandle {
   let closed = false;
+  let resolveClosed: () => void = () => {};
+  const relayClosed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+  const chains: Record<RelayDirection, Promise<void>> = {
+    'client->backend': Promise.resolve(),
+    'backend->client': Promise.resolve(),
+  };
+  const bytes: Record<RelayDirection, number> = { 'client->backend': 0, 'backend->client': 0 };
+  const closedPeers = new Set<WebSocket>();
 
   const closeBoth = (code: number, reason: string): void => {
     if (closed) {
@@ -105,8 +129,11 @@ export function bridgeSockets(
     }
 
     closed = true;
+    session.dispose();
+    shaper.dispose();
     safeClose(clientSocket, code, reason);
     safeClose(backendSocket, code, reason);
+    resolveClosed();
   };
 
   const onForwardFailure = (direction: RelayDirection, error: unknown): void => {
@@ -114,34 +141,44 @@ export function bridgeSockets(
     closeBoth(1011, 'Relay failure');
   };
 
-  const forward = (destination: WebSocket, payload: WebSocketPayload, direction: RelayDirection): void => {
-    if (payload instanceof Blob) {
-      void payload
-        .arrayBuffer()
-        .then((arrayBuffer) => {
-          if (closed) {
-            return;
-          }
-
-          try {
-            destination.send(arrayBuffer);
-          } catch (error) {
-            onForwardFailure(direction, error);
-          }
-        })
-        .catch((error: unknown) => {
-          onForwardFailure(direction, error);
-        });
-      return;
-    }
+  const shaper = createBandwidthShaper(policy.bandwidth);
 
+  // An empty binary frame carries no proxy data but keeps intermediaries from timing out the backend leg.
+  const session = watchSession(policy.session, closeBoth, () => {
     try {
-      destination.send(payload);
+      backendSocket.send(new Uint8Array(0));
     } catch (error) {
-      onForwardFailure(direction, error);
+      onForwardFailure('client->backend', error);
     }
+  });
+
+  // Sends are chained so Blob frames cannot overtake frames that arrived after them.
+  const forward = (destination: WebSocket, payload: WebSocketPayload, direction: RelayDirection): void => {
+    const size = payloadByteLength(payload);
+    session.touch(direction);
+
+    chains[direction] = chains[direction]
+      .then(async () => {
+        const data = payload instanceof Blob ? await payload.arrayBuffer() : payload;
+        await shaper.take(direction, size);
+
+        if (!closed && !closedPeers.has(destination)) {
+          destination.send(data);
+          bytes[direction] += size;
+        }
+      })
+      .catch((error: unknown) => {
+        if (!closed) {
+          onForwardFailure(direction, error);
+        }
+      });
   };
 
+  // Frames captured before the backend was ready go out first, preserving client order.
+  for (const payload of pendingClientFrames) {
+    forward(backendSocket, payload, 'client->backend');
+  }
+
   clientSocket.addEventListener('message', (event) => {
     forward(backendSocket, event.data as WebSocketPayload, 'client->backend');
   });
@@ -150,12 +187,20 @@ export function bridgeSockets(
     forward(clientSocket, event.data as WebSocketPayload, 'backend->client');
   });
 
+  // Frames a peer sent before closing still go out to the other side, however long shaping holds them.
+  const closeAfterDrain = (peer: WebSocket, direction: RelayDirection, code: number, reason: string): void => {
+    closedPeers.add(peer);
+    void chains[direction].then(() => {
+      closeBoth(code, reason);
+    });
+  };
+
   clientSocket.addEventListener('close', (event) => {
-    closeBoth(event.code, event.reason || 'Client closed connection');
+    closeAfterDrain(clientSocket, 'client->backend', event.code, event.reason || 'Client closed connection');
   });
 
   backendSocket.addEventListener('close', (event) => {
-    closeBoth(event.code, event.reason || 'Backend closed connection');
+    closeAfterDrain(backendSocket, 'backend->client', event.code, event.reason || 'Backend closed connection');
   });
 
   clientSocket.addEventListener('error', () => {
@@ -165,4 +210,6 @@ export function bridgeSockets(
   backendSocket.addEventListener('error', () => {
     closeBoth(1011, 'Backend socket error');
   });
+
+  return { closed: relayClosed, bytes, close: closeBoth };
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RelayPolicy } from './relay-policy';
+import { DEFAULT_RELAY_POLICY } from './relay-policy';
+import type { RelayDirection } from './socket';
+import { bridgeWebSocketToTcp } from './tcp';
+
+const policy: RelayPolicy = {
+  ...DEFAULT_RELAY_POLICY,
+  flowControl: { highWatermarkBytes: 8, lowWatermarkBytes: 4, stallTimeoutMs: 50 },
+};
+
+/** Destination whose writes take `writeMs` each, or never finish when null. */
+function createDestination(writeMs: number | null): { socket: Socket; written: number[] } {
+  const written: number[] = [];
+  const socket = {
+    readable: new ReadableStream<Uint8Array>(),
+    writable: new WritableStream<Uint8Array>({
+      write(chunk) {
+        if (writeMs === null) {
+          return new Promise<void>(() => {});
+        }
+
+        return new Promise<void>((resolve) => {
+          setTimeout(() => {
+            written.push(chunk.byteLength);
+            resolve();
+          }, writeMs);
+        });
+      },
+    }),
+    close: () => Promise.resolve(),
+  };
+
+  return { socket: socket as unknown as Socket, written };
+}
+
+function openClient(): { client: WebSocket; server: WebSocket } {
+  const [client, server] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+  client.accept();
+  server.accept();
+  return { client, server };
+}
+
+describe('bridgeWebSocketToTcp flow control', () => {
+  it('closes the relay when the destination stops taking client bytes', async () => {
+    const { client, server } = openClient();
+    const destination = createDestination(null);
+    const errors: RelayDirection[] = [];
+    const clientClose = new Promise<string>((resolve) => {
+      client.addEventListener('close', (event) => {
+        resolve(event.reason);
+      });
+    });
+
+    const relay = bridgeWebSocketToTcp(
+      server,
+      destination.socket,
+      (direction) => errors.push(direction),
+      [],
+      null,
+      policy,
+    );
+    client.send(new Uint8Array(16));
+
+    await relay.closed;
+    expect(errors).toEqual(['client->backend']);
+    expect(await clientClose).toBe('Backend stalled');
+  });
+
+  it('keeps a relay open while a slow destination drains its backlog', async () => {
+    const { client, server } = openClient();
+    const destination = createDestination(10);
+    const errors: RelayDirection[] = [];
+
+    const relay = bridgeWebSocketToTcp(
+      server,
+      destination.socket,
+      (direction) => errors.push(direction),
+      [],
+      null,
+      { ...policy, flowControl: { ...policy.flowControl, stallTimeoutMs: 200 } },
+    );
+
+    for (let i = 0; i < 3; i += 1) {
+      client.send(new Uint8Array(6));
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(errors).toEqual([]);
+    expect(destination.written).toEqual([6, 6, 6]);
+    expect(relay.bytes['client->backend']).toBe(18);
+    relay.close(1000, 'done');
+  });
+
+  it('leaves shaped client bytes out of the backlog and writes them all before closing', async () => {
+    const { client, server } = openClient();
+    const destination = createDestination(0);
+    const errors: RelayDirection[] = [];
+
+    const relay = bridgeWebSocketToTcp(
+      server,
+      destination.socket,
+      (direction) => errors.push(direction),
+      [],
+      null,
+      {
+        ...policy,
+        bandwidth: { uploadBytesPerSecond: 400, downloadBytesPerSecond: 0, burstBytes: 16 },
+      },
+    );
+
+    for (let i = 0; i < 3; i += 1) {
+      client.send(new Uint8Array(16));
+    }
+
+    client.close(1000, 'done');
+    await relay.closed;
+    expect(errors).toEqual([]);
+    expect(destination.written).toEqual([16, 16, 16]);
+    expect(relay.bytes['client->backend']).toBe(48);
+  });
+});
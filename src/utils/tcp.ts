@@ -0,0 +1,174 @@
+import { connect } from 'cloudflare:sockets';
+
+import { createBandwidthShaper } from './bandwidth';
+import { concatBytes } from './bytes';
+import { createFlowGate, stallCloseReason } from './flow-control';
+import { toBytes } from './frames';
+import type { RelayPolicy } from './relay-policy';
+import { DEFAULT_RELAY_POLICY } from './relay-policy';
+import { watchSession } from './session-limits';
+import type { RelayDirection, RelayHandle, WebSocketPayload } from './socket';
+import { safeClose } from './socket';
+
+/** Opens an outbound TCP connection. Injectable so tests can point every destination at a local server. */
+export type TcpDial = (address: SocketAddress, options?: SocketOptions) => Socket;
+
+export const dialTcp: TcpDial = (address, options) => connect(address, options);
+
+/**
+ * Relays a client WebSocket to an outbound TCP socket. Client frames are written in order; downstream
+ * bytes are sent as binary frames, the first one prefixed with `responsePrefix` when given. Client
+ * bytes handed to the socket and not yet taken by the destination are counted against the flow-control
+ * watermarks; frames still held back by the bandwidth limits of `policy` are not. Downstream bytes are
+ * only read as fast as they are handed to the client, which the bandwidth limits may slow down further.
+ */
+export function bridgeWebSocketToTcp(
+  webSocket: WebSocket,
+  tcpSocket: Socket,
+  onRelayError: (direction: RelayDirection, error: unknown) => void,
+  pendingClientFrames: readonly WebSocketPayload[] = [],
+  responsePrefix: Uint8Array | null = null,
+  policy: RelayPolicy = DEFAULT_RELAY_POLICY,
+): RelayHandle {
+  const writer = tcpSocket.writable.getWriter();
+  const encoder = new TextEncoder();
+  let prefix = responsePrefix;
+  let closed = false;
+  let writeChain: Promise<void> = Promise.resolve();
+  let lastWrite: Promise<void> = Promise.resolve();
+  let clientGone = false;
+  const bytes: Record<RelayDirection, number> = { 'client->backend': 0, 'backend->client': 0 };
+  let resolveClosed: () => void = () => {};
+  const relayClosed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const closeBoth = (code: number, reason: string): void => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    session.dispose();
+    shaper.dispose();
+    upstreamGate.dispose();
+    safeClose(webSocket, code, reason);
+    tcpSocket.close().catch(() => {
+      // Ignore close errors; the connection may already be gone.
+    });
+    resolveClosed();
+  };
+
+  const onForwardFailure = (direction: RelayDirection, error: unknown): void => {
+    if (closed) {
+      return;
+    }
+
+    onRelayError(direction, error);
+    closeBoth(1011, 'Relay failure');
+  };
+
+  const upstreamGate = createFlowGate('client->backend', policy.flowControl, (direction, bufferedBytes) => {
+    if (closed) {
+      return;
+    }
+
+    onRelayError(direction, new Error(`Relay stalled with ${bufferedBytes} bytes buffered.`));
+    closeBoth(1011, stallCloseReason(direction));
+  });
+
+  // A raw TCP stream has no empty frame to send, so keepalives only apply to WebSocket backends.
+  const session = watchSession(policy.session, closeBoth);
+  const shaper = createBandwidthShaper(policy.bandwidth);
+
+  // Writes are chained so Blob frames cannot overtake frames that arrived after them.
+  const forwardUpstream = (payload: WebSocketPayload): void => {
+    session.touch('client->backend');
+
+    writeChain = writeChain
+      .then(async () => {
+        const chunk = typeof payload === 'string' ? encoder.encode(payload) : await toBytes(payload);
+
+        if (!chunk || chunk.byteLength === 0) {
+          return;
+        }
+
+        await shaper.take('client->backend', chunk.byteLength);
+
+        if (closed) {
+          return;
+        }
+
+        // Only bytes handed to the socket are backlog; a frame held back by the bandwidth limit is not.
+        const size = chunk.byteLength;
+        upstreamGate.add(size);
+        lastWrite = writer
+          .write(chunk)
+          .then(
+            () => {
+              bytes['client->backend'] += size;
+            },
+            (error: unknown) => {
+              onForwardFailure('client->backend', error);
+            },
+          )
+          .finally(() => {
+            upstreamGate.release(size);
+          });
+      })
+      .catch((error: unknown) => {
+        onForwardFailure('client->backend', error);
+      });
+  };
+
+  for (const payload of pendingClientFrames) {
+    forwardUpstream(payload);
+  }
+
+  webSocket.addEventListener('message', (event) => {
+    forwardUpstream(event.data as WebSocketPayload);
+  });
+
+  // Frames the client sent before closing still reach the destination, however long shaping holds them.
+  webSocket.addEventListener('close', (event) => {
+    clientGone = true;
+    void writeChain
+      .then(() => lastWrite)
+      .then(() => {
+        closeBoth(event.code, event.reason || 'Client closed connection');
+      });
+  });
+
+  webSocket.addEventListener('error', () => {
+    closeBoth(1011, 'Client socket error');
+  });
+
+  tcpSocket.readable
+    .pipeTo(
+      new WritableStream<Uint8Array>({
+        async write(chunk) {
+          if (closed || clientGone) {
+            return;
+          }
+
+          session.touch('backend->client');
+          const frame = prefix ? concatBytes(prefix, chunk) : chunk;
+          prefix = null;
+          await shaper.take('backend->client', frame.byteLength);
+
+          if (!closed && !clientGone) {
+            webSocket.send(frame);
+            bytes['backend->client'] += frame.byteLength;
+          }
+        },
+      }),
+    )
+    .then(() => {
+      closeBoth(1000, 'Destination closed connection');
+    })
+    .catch((error: unknown) => {
+      onForwardFailure('backend->client', error);
+    });
+
+  return { closed: relayClosed, bytes, close: closeBoth };
+}
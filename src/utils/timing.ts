@@ -0,0 +1,20 @@
+import type { RejectBehaviour } from '../types';
+
+const REJECT_DELAY_MIN_MS = 1_000;
+const REJECT_DELAY_MAX_MS = 5_000;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Waits a random interval before a rejection, so rejected clients cannot time the check. */
+export function delayRejection(): Promise<void> {
+  return sleep(REJECT_DELAY_MIN_MS + Math.random() * (REJECT_DELAY_MAX_MS - REJECT_DELAY_MIN_MS));
+}
+
+/** Delays the answer to a rejected HTTP request; with no open socket to hold, `decoy` acts like `delay`. */
+export async function delayHttpRejection(behaviour: RejectBehaviour): Promise<void> {
+  if (behaviour !== 'drop') {
+    await delayRejection();
+  }
+}
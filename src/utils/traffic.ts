@@ -0,0 +1,233 @@
+import type { TrafficUsage } from '../state/traffic-usage';
+import type { Env, TrafficCounters } from '../types';
+import { parsePositiveInteger } from './env';
+import type { RelayHandle } from './socket';
+
+export const TRAFFIC_FLUSH_INTERVAL_MS = 10_000;
+const QUOTA_CHECK_INTERVAL_MS = 1_000;
+export const QUOTA_CLOSE_REASON = 'Quota exceeded';
+
+/** Quotas on upload plus download per user; 0 disables a quota. */
+export interface TrafficQuotas {
+  dailyBytes: number;
+  monthlyBytes: number;
+}
+
+export type QuotaWindow = 'daily' | 'monthly';
+
+export interface TrafficStatus {
+  day: TrafficCounters;
+  month: TrafficCounters;
+  /** Window whose quota is used up, or null. */
+  exceeded: QuotaWindow | null;
+  /** Bytes left before the nearest quota is reached, or null without quotas. */
+  remainingBytes: number | null;
+  /** When the exceeded window resets, or null. */
+  resetsAt: number | null;
+}
+
+export const EMPTY_TRAFFIC: TrafficCounters = { upload: 0, download: 0 };
+const NO_TRAFFIC_QUOTAS: TrafficQuotas = { dailyBytes: 0, monthlyBytes: 0 };
+const USER_TAG_PREFIX = 'user:';
+
+export function getTrafficQuotas(env: Env): TrafficQuotas {
+  return {
+    dailyBytes: parsePositiveInteger(env.TRAFFIC_DAILY_QUOTA_BYTES, 0),
+    monthlyBytes: parsePositiveInteger(env.TRAFFIC_MONTHLY_QUOTA_BYTES, 0),
+  };
+}
+
+/** Quotas are per user: routes and other tags are counted but never refused or cut off. */
+function getTagQuotas(env: Env, tag: string): TrafficQuotas {
+  return tag.startsWith(USER_TAG_PREFIX) ? getTrafficQuotas(env) : NO_TRAFFIC_QUOTAS;
+}
+
+/** Accounting needs the TRAFFIC_USAGE binding; setting a quota turns it on without TRAFFIC_ACCOUNTING. */
+export function isTrafficAccountingEnabled(env: Env): boolean {
+  if (!env.TRAFFIC_USAGE) {
+    return false;
+  }
+
+  const quotas = getTrafficQuotas(env);
+  return env.TRAFFIC_ACCOUNTING === 'true' || quotas.dailyBytes > 0 || quotas.monthlyBytes > 0;
+}
+
+/** Storage keys of the UTC day and month containing `now`: `day:YYYY-MM-DD` and `month:YYYY-MM`. */
+export function trafficWindowKeys(now: number): { day: string; month: string } {
+  const iso = new Date(now).toISOString();
+  return { day: `day:${iso.slice(0, 10)}`, month: `month:${iso.slice(0, 7)}` };
+}
+
+function windowResetsAt(window: QuotaWindow, now: number): number {
+  const date = new Date(now);
+
+  return window === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+export function addTraffic(
+  counters: TrafficCounters | undefined,
+  upload: number,
+  download: number,
+): TrafficCounters {
+  const current = counters ?? EMPTY_TRAFFIC;
+  return { upload: current.upload + upload, download: current.download + download };
+}
+
+/** Checks the monthly quota first, so a client over both is told to wait for the later reset. */
+export function getTrafficStatus(
+  day: TrafficCounters,
+  month: TrafficCounters,
+  quotas: TrafficQuotas,
+  now: number,
+): TrafficStatus {
+  const windows: [QuotaWindow, number, TrafficCounters][] = [
+    ['monthly', quotas.monthlyBytes, month],
+    ['daily', quotas.dailyBytes, day],
+  ];
+  let exceeded: QuotaWindow | null = null;
+  let remainingBytes: number | null = null;
+
+  for (const [window, quota, used] of windows) {
+    if (quota === 0) {
+      continue;
+    }
+
+    const left = Math.max(0, quota - used.upload - used.download);
+
+    if (left === 0 && !exceeded) {
+      exceeded = window;
+    }
+
+    remainingBytes = remainingBytes === null ? left : Math.min(remainingBytes, left);
+  }
+
+  return {
+    day,
+    month,
+    exceeded,
+    remainingBytes,
+    resetsAt: exceeded ? windowResetsAt(exceeded, now) : null,
+  };
+}
+
+function getTrafficStub(env: Env, tag: string): DurableObjectStub<TrafficUsage> | null {
+  if (!env.TRAFFIC_USAGE) {
+    return null;
+  }
+
+  // One object per user keeps each user's totals in a single place.
+  return env.TRAFFIC_USAGE.get(env.TRAFFIC_USAGE.idFromName(tag));
+}
+
+/**
+ * Current usage of `tag`, or null when it cannot be read or `tag` has no quotas to check; quotas are
+ * then not enforced at admission.
+ */
+export async function readTrafficStatus(env: Env, tag: string): Promise<TrafficStatus | null> {
+  const stub = getTrafficStub(env, tag);
+  const quotas = getTagQuotas(env, tag);
+
+  if (!stub || (quotas.dailyBytes === 0 && quotas.monthlyBytes === 0)) {
+    return null;
+  }
+
+  try {
+    return await stub.status(quotas, Date.now());
+  } catch (error) {
+    if (env.DEBUG === 'true') {
+      console.error('[traffic] usage store unavailable', error);
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Reports the bytes of a relay under `tag`. Unreported bytes are sent to TRAFFIC_USAGE every flush interval
+ * and when the relay closes. With quotas on a user tag, the relay is also checked every second against the
+ * bytes its user had left at the last report, and closed with `1008` once TRAFFIC_USAGE reports a quota
+ * used up.
+ */
+export function meterRelay(
+  env: Env,
+  ctx: ExecutionContext,
+  tag: string,
+  relay: RelayHandle,
+  status: TrafficStatus | null,
+): void {
+  const stub = getTrafficStub(env, tag);
+
+  if (!stub) {
+    return;
+  }
+
+  const quotas = getTagQuotas(env, tag);
+  const hasQuota = quotas.dailyBytes > 0 || quotas.monthlyBytes > 0;
+  const reported: TrafficCounters = { upload: 0, download: 0 };
+  let remainingBytes = status?.remainingBytes ?? null;
+  let lastFlushAt = Date.now();
+  let pendingFlush: Promise<void> | null = null;
+
+  const unreportedBytes = (): number =>
+    relay.bytes['client->backend'] - reported.upload + relay.bytes['backend->client'] - reported.download;
+
+  const flush = async (): Promise<void> => {
+    const upload = relay.bytes['client->backend'] - reported.upload;
+    const download = relay.bytes['backend->client'] - reported.download;
+    lastFlushAt = Date.now();
+
+    if (upload === 0 && download === 0) {
+      return;
+    }
+
+    reported.upload += upload;
+    reported.download += download;
+
+    try {
+      const next = await stub.record(upload, download, quotas, lastFlushAt);
+      remainingBytes = next.remainingBytes;
+
+      if (next.exceeded) {
+        relay.close(1008, QUOTA_CLOSE_REASON);
+      }
+    } catch (error) {
+      // The bytes stay unreported and go out with the next flush.
+      reported.upload -= upload;
+      reported.download -= download;
+
+      if (env.DEBUG === 'true') {
+        console.error('[traffic] usage report failed', error);
+      }
+    }
+  };
+
+  const startFlush = (): void => {
+    pendingFlush = flush().finally(() => {
+      pendingFlush = null;
+    });
+    ctx.waitUntil(pendingFlush);
+  };
+
+  const timer = setInterval(
+    () => {
+      if (pendingFlush) {
+        return;
+      }
+
+      const quotaReached = remainingBytes !== null && unreportedBytes() >= remainingBytes;
+
+      if (quotaReached || Date.now() - lastFlushAt >= TRAFFIC_FLUSH_INTERVAL_MS) {
+        startFlush();
+      }
+    },
+    hasQuota ? QUOTA_CHECK_INTERVAL_MS : TRAFFIC_FLUSH_INTERVAL_MS,
+  );
+
+  void relay.closed.then(async () => {
+    clearInterval(timer);
+    await pendingFlush;
+    startFlush();
+  });
+}
@@ -0,0 +1,213 @@
+import { isEdgeInboundEnabled, terminateAtEdge } from '../inbound/edge';
+import { inspectFirstFrame, needsFirstFrameInspection, readFrameUserId } from '../inspection';
+import { resolveFrameBackend } from '../sniffing';
+import type { BackendTarget, Env } from '../types';
+import type { BackendDialResult } from './deferred-relay';
+import { bridgeDialedBackend, relayAfterFirstFrame } from './deferred-relay';
+import type { EarlyData } from './early-data';
+import { EARLY_DATA_HEADER, upgradeResponse } from './early-data';
+import { parsePositiveInteger } from './env';
+import type { UpgradeAttemptFailure } from './failover';
+import { dialUpgradeWithFailover } from './failover';
+import { FIRST_FRAME_TIMEOUT_MS } from './fetch';
+import { CLIENT_BUFFER_MAX_BYTES, createClientFrameQueue } from './frames';
+import { filterHandshakeHeaders, toRejectionResponse } from './handshake';
+import { limitUpgrade, rateLimitResponse } from './rate-limit';
+import { getRelayPolicy } from './relay-policy';
+import { textResponse } from './response';
+import type { RelayDirection } from './socket';
+import { buildBackendUpgradeHeaders, safeClose } from './socket';
+
+/** Backend a connection is dialed to, with the env scoped to it (see `resolveFrameBackend`). */
+export interface UpgradeTarget {
+  backend: BackendTarget;
+  env: Env;
+}
+
+/** Dials `target` with the prepared handshake headers, reporting each failed attempt. */
+export type UpgradeDial = (
+  target: UpgradeTarget,
+  headers: Headers,
+  onAttemptFailure: UpgradeAttemptFailure,
+) => Promise<BackendDialResult>;
+
+export interface UpgradeRelayOptions {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  logPrefix: string;
+  /** Request URL with the early-data hint removed, as the backend sees it. */
+  requestUrl: URL;
+  /** Backend selected for the request before any client data was read. */
+  backend: BackendTarget;
+  backendUrl: URL;
+  earlyData: EarlyData | null;
+  /** `Upgrade` value sent to the backend; defaults to `websocket`. */
+  upgradeValue?: string;
+  /** Transport details added to the `dialing backend` debug log. */
+  logDetails?: Record<string, unknown>;
+  /** Dials the backend; defaults to a WebSocket upgrade with failover. */
+  dial?: UpgradeDial;
+}
+
+/**
+ * Shared upgrade pipeline of the `ws`, `httpupgrade` and `xhttp` transports. The client is checked
+ * against its limits, upgraded, and then:
+ * - terminated at the edge when VLESS_INBOUND/TROJAN_INBOUND is set,
+ * - inspected on its first frame (early data or the first WebSocket message) before a backend is dialed
+ *   when any edge check is enabled; rejected clients are closed on the upgraded socket,
+ * - otherwise bridged to a backend dialed right away, whose rejection is passed back to the client.
+ */
+export async function relayUpgrade(options: UpgradeRelayOptions): Promise<Response> {
+  const { request, env, ctx, logPrefix, requestUrl, backend, earlyData } = options;
+  const debugEnabled = env.DEBUG === 'true';
+  const earlyDataBytes = earlyData?.bytes ?? null;
+  const limiter = await limitUpgrade(request, env, ctx, {
+    firstFrame: earlyDataBytes,
+    readsFirstFrame: isEdgeInboundEnabled(env) || needsFirstFrameInspection(env),
+  });
+
+  if (limiter.rejection) {
+    if (debugEnabled) {
+      console.log(logPrefix, 'upgrade over client limits', { reason: limiter.rejection.reason });
+    }
+
+    return rateLimitResponse(limiter.rejection);
+  }
+
+  const socketPair = new WebSocketPair();
+  const clientSocket = socketPair[0];
+  const workerSocket = socketPair[1];
+  workerSocket.accept();
+
+  // Frames the client sends before a backend is connected are held here and flushed in order.
+  const clientQueue = createClientFrameQueue(
+    workerSocket,
+    parsePositiveInteger(env.CLIENT_BUFFER_MAX_BYTES, CLIENT_BUFFER_MAX_BYTES),
+  );
+
+  const backendHeaders = buildBackendUpgradeHeaders(request, options.upgradeValue);
+
+  if (earlyData) {
+    // Early data is delivered as the first frame, so the backend must not decode it again.
+    backendHeaders.delete(EARLY_DATA_HEADER);
+  }
+
+  if (debugEnabled) {
+    console.log(logPrefix, 'dialing backend', {
+      backendUrl: options.backendUrl.toString(),
+      ...options.logDetails,
+      earlyDataBytes: earlyDataBytes?.byteLength ?? 0,
+    });
+  }
+
+  const onAttemptFailure: UpgradeAttemptFailure = (failedBackend, failedUrl, reason, error) => {
+    if (debugEnabled) {
+      console.log(logPrefix, 'backend upgrade attempt failed', {
+        backend: failedBackend.key,
+        backendUrl: failedUrl.toString(),
+        reason,
+        error,
+      });
+    }
+  };
+  const onRelayError = (direction: RelayDirection, error: unknown): void => {
+    if (debugEnabled) {
+      console.log(logPrefix, 'relay error', { direction, error });
+    }
+  };
+  const dial = (target: UpgradeTarget): Promise<BackendDialResult> =>
+    options.dial
+      ? options.dial(target, backendHeaders, onAttemptFailure)
+      : dialUpgradeWithFailover(
+          target.backend,
+          target.env,
+          ctx,
+          requestUrl,
+          { method: 'GET', headers: backendHeaders, redirect: 'manual' },
+          onAttemptFailure,
+        );
+  const firstFrameTimeoutMs = parsePositiveInteger(
+    env.FIRST_FRAME_TIMEOUT_MS,
+    FIRST_FRAME_TIMEOUT_MS,
+  );
+
+  if (isEdgeInboundEnabled(env)) {
+    ctx.waitUntil(
+      terminateAtEdge({
+        env,
+        workerSocket,
+        clientQueue,
+        logPrefix,
+        debugEnabled,
+        firstFrameTimeoutMs,
+        earlyData: earlyDataBytes,
+        onRelayError,
+        limiter,
+      }),
+    );
+
+    return upgradeResponse(clientSocket, earlyData);
+  }
+
+  if (needsFirstFrameInspection(env)) {
+    ctx.waitUntil(
+      relayAfterFirstFrame({
+        workerSocket,
+        clientQueue,
+        logPrefix,
+        debugEnabled,
+        firstFrameTimeoutMs,
+        earlyData: earlyDataBytes,
+        inspect: (firstFrame) => inspectFirstFrame(env, firstFrame),
+        dial: async (firstFrame) =>
+          dial(await resolveFrameBackend(request, env, requestUrl, firstFrame, backend)),
+        onRelayError,
+        relayPolicy: (userId) => getRelayPolicy(env, userId),
+        limiter,
+      }),
+    );
+
+    return upgradeResponse(clientSocket, earlyData);
+  }
+
+  // Early data is the first client frame, so the protocol backend can be chosen before dialing.
+  const target = earlyDataBytes
+    ? await resolveFrameBackend(request, env, requestUrl, earlyDataBytes, backend)
+    : { backend, env };
+  const relayPolicy = getRelayPolicy(
+    target.env,
+    earlyDataBytes ? readFrameUserId(earlyDataBytes) : null,
+  );
+  const dialResult = await dial(target);
+
+  if (!dialResult.ok) {
+    clientQueue.drain();
+    limiter.release();
+    safeClose(workerSocket, 1011, dialResult.closeReason);
+    return dialResult.rejection
+      ? toRejectionResponse(target.env, dialResult.rejection)
+      : textResponse(502, dialResult.message);
+  }
+
+  const relay = bridgeDialedBackend(
+    workerSocket,
+    clientQueue,
+    dialResult,
+    earlyDataBytes,
+    onRelayError,
+    relayPolicy,
+  );
+
+  if (relay) {
+    limiter.track(relay);
+  } else {
+    limiter.release();
+  }
+
+  return upgradeResponse(
+    clientSocket,
+    earlyData,
+    filterHandshakeHeaders(target.env, dialResult.headers),
+  );
+}
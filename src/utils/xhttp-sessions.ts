@@ -0,0 +1,175 @@
+import type { XhttpSessions } from '../state/xhttp-sessions';
+import type { Env, XhttpSessionRecord } from '../types';
+
+/** A session no request has used for this long is forgotten, and its later requests are refused. */
+export const XHTTP_SESSION_IDLE_MS = 300_000;
+// Expiry is only pushed out once it has aged this much, so busy sessions are not written per packet.
+const SESSION_REFRESH_MS = 60_000;
+const MAX_LOCAL_SESSIONS = 10_000;
+
+export type SessionWaiter = (record: XhttpSessionRecord) => void;
+
+const localSessions = new Map<string, XhttpSessionRecord>();
+const localWaiters = new Map<string, Set<SessionWaiter>>();
+
+export function openSessionRecord(userId: string | null, now: number): XhttpSessionRecord {
+  return { userId, expiresAt: now + XHTTP_SESSION_IDLE_MS };
+}
+
+/** The record with its idle expiry pushed out, or the same record while the last refresh is recent. */
+export function touchSessionRecord(record: XhttpSessionRecord, now: number): XhttpSessionRecord {
+  if (record.expiresAt - now > XHTTP_SESSION_IDLE_MS - SESSION_REFRESH_MS) {
+    return record;
+  }
+
+  return { ...record, expiresAt: now + XHTTP_SESSION_IDLE_MS };
+}
+
+/** Resolves with the record handed to a waiter of `waiters`, or null after `timeoutMs`. */
+export function waitForSessionRecord(
+  waiters: Set<SessionWaiter>,
+  timeoutMs: number,
+): Promise<XhttpSessionRecord | null> {
+  return new Promise((resolve) => {
+    const waiter: SessionWaiter = (record) => {
+      clearTimeout(timer);
+      resolve(record);
+    };
+    const timer = setTimeout(() => {
+      waiters.delete(waiter);
+      resolve(null);
+    }, timeoutMs);
+
+    waiters.add(waiter);
+  });
+}
+
+function cacheLocalSession(sessionId: string, record: XhttpSessionRecord): void {
+  // Re-inserting keeps the map in last-use order, so the oldest session is evicted first.
+  localSessions.delete(sessionId);
+  localSessions.set(sessionId, record);
+
+  if (localSessions.size > MAX_LOCAL_SESSIONS) {
+    const oldest = localSessions.keys().next();
+
+    if (!oldest.done) {
+      localSessions.delete(oldest.value);
+    }
+  }
+}
+
+function liveLocalSession(sessionId: string, now: number): XhttpSessionRecord | null {
+  const record = localSessions.get(sessionId);
+
+  if (!record) {
+    return null;
+  }
+
+  if (record.expiresAt <= now) {
+    localSessions.delete(sessionId);
+    return null;
+  }
+
+  return record;
+}
+
+function getSessionStub(env: Env, sessionId: string): DurableObjectStub<XhttpSessions> | null {
+  if (!env.XHTTP_SESSIONS) {
+    return null;
+  }
+
+  // One object per session, so the requests of a session meet wherever they are handled.
+  return env.XHTTP_SESSIONS.get(env.XHTTP_SESSIONS.idFromName(sessionId));
+}
+
+/**
+ * Records that an inspected upload opened `sessionId` for `userId`, and releases the requests of the
+ * session waiting for it. The record is kept in the isolate and, when bound, in XHTTP_SESSIONS.
+ */
+export async function openXhttpSession(
+  env: Env,
+  sessionId: string,
+  userId: string | null,
+): Promise<void> {
+  const record = openSessionRecord(userId, Date.now());
+  const waiters = localWaiters.get(sessionId);
+
+  cacheLocalSession(sessionId, record);
+  localWaiters.delete(sessionId);
+  waiters?.forEach((waiter) => {
+    waiter(record);
+  });
+
+  const stub = getSessionStub(env, sessionId);
+
+  if (!stub) {
+    return;
+  }
+
+  try {
+    await stub.open(record);
+  } catch (error) {
+    // Requests handled by this isolate still find the session; others are refused until it reopens.
+    if (env.DEBUG === 'true') {
+      console.error('[xhttp] session store unavailable', error);
+    }
+  }
+}
+
+/**
+ * The record of an open session, waiting up to `timeoutMs` for the upload that opens it, since the
+ * download and the first packets may arrive before it. Null when the session was not opened in time.
+ */
+export async function awaitXhttpSession(
+  env: Env,
+  sessionId: string,
+  timeoutMs: number,
+): Promise<XhttpSessionRecord | null> {
+  const now = Date.now();
+  const cached = liveLocalSession(sessionId, now);
+  const stub = getSessionStub(env, sessionId);
+
+  if (cached && !stub) {
+    const record = touchSessionRecord(cached, now);
+    cacheLocalSession(sessionId, record);
+    return record;
+  }
+
+  if (cached && touchSessionRecord(cached, now) === cached) {
+    return cached;
+  }
+
+  if (!stub) {
+    let waiters = localWaiters.get(sessionId);
+
+    if (!waiters) {
+      waiters = new Set();
+      localWaiters.set(sessionId, waiters);
+    }
+
+    const record = await waitForSessionRecord(waiters, timeoutMs);
+
+    if (waiters.size === 0 && localWaiters.get(sessionId) === waiters) {
+      localWaiters.delete(sessionId);
+    }
+
+    return record;
+  }
+
+  try {
+    // A cached session is refreshed in the shared object too, so other isolates keep finding it.
+    const record = await stub.lookup(cached ? 0 : timeoutMs, now);
+
+    if (record) {
+      cacheLocalSession(sessionId, record);
+    }
+
+    return record ?? cached;
+  } catch (error) {
+    if (env.DEBUG === 'true') {
+      console.error('[xhttp] session store unavailable', error);
+    }
+
+    return cached;
+  }
+}
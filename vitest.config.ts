@@ -0,0 +1,15 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    poolOptions: {
+      workers: {
+        miniflare: {
+          compatibilityDate: '2026-02-10',
+          compatibilityFlags: ['nodejs_compat'],
+        },
+      },
+    },
+  },
+});